@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useMemo } from 'react'
-import { Upload, FileText, Download, Check, AlertCircle } from 'lucide-react'
+import React, { useState, useCallback } from 'react'
+import { Upload, FileText, Download, Check, AlertCircle, ZoomIn, ZoomOut, PenLine, FileSpreadsheet, History, Undo2, Redo2, Eraser, UserRound, LayoutTemplate, PencilRuler, Save, FileDown, ListOrdered, ScanSearch } from 'lucide-react'
 import { Button } from './components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card'
 import { Input } from './components/ui/input'
@@ -12,12 +12,49 @@ import { Progress } from './components/ui/progress'
 import { Alert, AlertDescription } from './components/ui/alert'
 import { Separator } from './components/ui/separator'
 import { Badge } from './components/ui/badge'
+import { Switch } from './components/ui/switch'
 import { Toaster } from './components/ui/toaster'
+import { FieldOverlay } from './components/field-overlay'
+import { SignatureDialog } from './components/signature-dialog'
+import { FormDataMenu, type FormDataFormat } from './components/form-data-menu'
+import { BatchFillDialog } from './components/batch-fill-dialog'
+import { StorageStatus } from './components/storage-status'
+import { VersionHistory } from './components/version-history'
+import { ProfileAutofillDialog } from './components/profile-autofill-dialog'
+import { TemplateLibrary } from './components/template-library'
+import { ValidationRulesDialog } from './components/validation-rules-dialog'
+import { FieldConditionsDialog } from './components/field-conditions-dialog'
+import { DownloadCheckDialog } from './components/download-check-dialog'
+import { DesignOverlay } from './components/design-overlay'
+import { FieldPropertiesDialog } from './components/field-properties-dialog'
+import { TabOrderDialog } from './components/tab-order-dialog'
 import { useToast } from './hooks/use-toast'
-import { PDFDocument, PDFForm } from 'pdf-lib'
+import { PDFDocument } from 'pdf-lib'
 import { Document, Page, pdfjs } from 'react-pdf'
 import 'react-pdf/dist/Page/AnnotationLayer.css'
 import 'react-pdf/dist/Page/TextLayer.css'
+import { detectFormFields, readPageInfo } from './lib/pdf-form'
+import { getViewportSize } from './lib/pdf-geometry'
+import { resolvePageTextLabels } from './lib/field-labels'
+import { detectFieldCandidates } from './lib/field-detection'
+import { fillPdf } from './lib/fill-pdf'
+import { appearanceFonts } from './lib/fonts'
+import { exportFdf, exportXfdf, matchImportedEntries, parseFdf, parseXfdf } from './lib/fdf'
+import { exportJson, parseJsonImport } from './lib/form-json'
+import { withSnapshot } from './lib/version-history'
+import { applyTemplate, fingerprintFields } from './lib/templates'
+import { validateForm, type FieldViolation } from './lib/validation'
+import { getCompletion, nextIncompleteFieldId } from './lib/completion'
+import { applyConditions } from './lib/conditions'
+import { describeCalculation, withCalculatedValues } from './lib/calculations'
+import { filterKeystroke, formatDisplayValue, formatHint } from './lib/field-format'
+import { getDatePattern, getFieldFormat, inputTypes, withInferredInputType, withInputType } from './lib/input-types'
+import { DateInput } from './components/date-input'
+import { addRadioChoice, createDesignedField, createFillablePdf, designFieldTypes, getFormEdits, hasFormEdits, nextFieldName, removeFieldReferences, renameFieldReferences, type DesignFieldType } from './lib/form-designer'
+import { emptyEditHistory, historyShortcut, recordEdit, redoEdit, undoEdit, type EditHistory } from './lib/edit-history'
+import { clearLocalData, getStorageEstimate, loadStoredFiles, loadTemplates, saveFileRecord, savePdfBytes, type StorageEstimate } from './lib/storage'
+import { baseFileName, downloadBlob } from './lib/download'
+import type { AppearanceFontId, FieldCondition, FieldSnapshot, FormField, FormTemplate, InputType, ValidationRule, LabelSource, PageInfo, PdfRect, UploadedFile } from './types/form'
 
 // Set up PDF.js worker with fallback
 try {
@@ -30,25 +67,12 @@ try {
   pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`
 }
 
-interface FormField {
-  id: string
-  name: string
-  type: 'text' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'signature'
-  label: string
-  value: string | boolean
-  options?: string[]
-  required?: boolean
-  placeholder?: string
-}
-
-interface UploadedFile {
-  id: string
-  name: string
-  size: number
-  uploadDate: Date
-  fields: FormField[]
-  pdfBytes: Uint8Array // Store original PDF data
-  pdfUrl: string // URL for PDF viewing
+const labelSourceNames: Record<LabelSource, string> = {
+  tooltip: 'PDF tooltip',
+  template: 'saved template',
+  pageText: 'text on page',
+  name: 'field name',
+  user: 'your edit',
 }
 
 function App() {
@@ -59,79 +83,114 @@ function App() {
   const [progress, setProgress] = useState(0)
   const [numPages, setNumPages] = useState<number | null>(null)
   const [pageNumber, setPageNumber] = useState(1)
+  const [focusedFieldId, setFocusedFieldId] = useState<string | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [signatureFieldId, setSignatureFieldId] = useState<string | null>(null)
+  const [isPlacingSignature, setIsPlacingSignature] = useState(false)
+  const [flattenOnDownload, setFlattenOnDownload] = useState(false)
+  const [isBatchFillOpen, setIsBatchFillOpen] = useState(false)
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [isAutofillOpen, setIsAutofillOpen] = useState(false)
+  const [templates, setTemplates] = useState<FormTemplate[]>([])
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false)
+  const [rulesFieldId, setRulesFieldId] = useState<string | null>(null)
+  const [conditionsFieldId, setConditionsFieldId] = useState<string | null>(null)
+  const [isDesigning, setIsDesigning] = useState(false)
+  const [designFieldType, setDesignFieldType] = useState<DesignFieldType>('text')
+  const [propertiesFieldId, setPropertiesFieldId] = useState<string | null>(null)
+  const [isTabOrderOpen, setIsTabOrderOpen] = useState(false)
+  const [downloadViolations, setDownloadViolations] = useState<FieldViolation[]>([])
+  // Required-field errors stay hidden until the first download attempt
+  const [showMissingFields, setShowMissingFields] = useState(false)
+  const [editHistories, setEditHistories] = useState<Record<string, EditHistory>>({})
   const { toast } = useToast()
 
+  // Last version of each file written to IndexedDB, to save only what changed
+  const savedFilesRef = React.useRef(new Map<string, UploadedFile>())
+  const uploadedFilesRef = React.useRef<UploadedFile[]>([])
+
   // Cleanup PDF URLs on unmount
+  React.useEffect(() => {
+    uploadedFilesRef.current = uploadedFiles
+  }, [uploadedFiles])
+
   React.useEffect(() => {
     return () => {
-      uploadedFiles.forEach(file => {
+      uploadedFilesRef.current.forEach(file => {
         if (file.pdfUrl) {
           URL.revokeObjectURL(file.pdfUrl)
         }
       })
     }
+  }, [])
+
+  const refreshStorageEstimate = useCallback(() => {
+    getStorageEstimate()
+      .then(setStorageEstimate)
+      .catch(() => setStorageEstimate(null))
+  }, [])
+
+  // Restore files saved in a previous session, with fresh blob URLs for the preview
+  React.useEffect(() => {
+    loadStoredFiles()
+      .then(storedFiles => {
+        if (storedFiles.length === 0) return
+
+        const restoredFiles = storedFiles.map(file => ({
+          ...file,
+          pdfUrl: URL.createObjectURL(new Blob([file.pdfBytes], { type: 'application/pdf' })),
+        }))
+        restoredFiles.forEach(file => savedFilesRef.current.set(file.id, file))
+        setUploadedFiles(prev => [...restoredFiles, ...prev.filter(file => !savedFilesRef.current.has(file.id))])
+        setSelectedFile(prev => prev ?? restoredFiles[0])
+      })
+      .catch(error => console.warn('Could not restore saved files:', error))
+      .finally(refreshStorageEstimate)
+  }, [refreshStorageEstimate])
+
+  React.useEffect(() => {
+    loadTemplates()
+      .then(setTemplates)
+      .catch(error => console.warn('Could not load form templates:', error))
+  }, [])
+
+  // Snapshot field values once editing pauses, for the version history
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      const snapshotted = uploadedFiles.map(withSnapshot)
+      if (snapshotted.every((file, index) => file === uploadedFiles[index])) return
+
+      setUploadedFiles(snapshotted)
+      setSelectedFile(prev => prev && (snapshotted.find(file => file.id === prev.id) ?? prev))
+    }, 2000)
+    return () => clearTimeout(timer)
   }, [uploadedFiles])
 
-  // Mock form fields for demonstration
-  const mockFormFields = useMemo<FormField[]>(() => [
-    {
-      id: '1',
-      name: 'fullName',
-      type: 'text',
-      label: 'Full Name',
-      value: '',
-      required: true,
-      placeholder: 'Enter your full name'
-    },
-    {
-      id: '2',
-      name: 'email',
-      type: 'text',
-      label: 'Email Address',
-      value: '',
-      required: true,
-      placeholder: 'Enter your email'
-    },
-    {
-      id: '3',
-      name: 'phone',
-      type: 'text',
-      label: 'Phone Number',
-      value: '',
-      placeholder: 'Enter your phone number'
-    },
-    {
-      id: '4',
-      name: 'address',
-      type: 'textarea',
-      label: 'Address',
-      value: '',
-      placeholder: 'Enter your full address'
-    },
-    {
-      id: '5',
-      name: 'country',
-      type: 'select',
-      label: 'Country',
-      value: '',
-      options: ['United States', 'Canada', 'United Kingdom', 'Australia', 'Germany', 'France', 'Other']
-    },
-    {
-      id: '6',
-      name: 'newsletter',
-      type: 'checkbox',
-      label: 'Subscribe to newsletter',
-      value: false
-    },
-    {
-      id: '7',
-      name: 'contactMethod',
-      type: 'radio',
-      label: 'Preferred Contact Method',
-      value: '',
-      options: ['Email', 'Phone', 'Mail']
-    }
-  ], [])
+  // Save uploads and edits to IndexedDB shortly after they happen
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      const changedFiles = uploadedFiles.filter(file => savedFilesRef.current.get(file.id) !== file)
+      if (changedFiles.length === 0) return
+
+      Promise.all(changedFiles.map(async file => {
+        // The bytes change only on upload and when designed fields are saved into the PDF
+        if (savedFilesRef.current.get(file.id)?.pdfBytes !== file.pdfBytes) await savePdfBytes(file.id, file.pdfBytes)
+        await saveFileRecord(file)
+        savedFilesRef.current.set(file.id, file)
+      }))
+        .catch(error => {
+          console.error('Error saving files locally:', error)
+          toast({
+            title: "Not saved locally",
+            description: "Your changes could not be stored in this browser and will be lost on reload. Storage may be full.",
+            variant: "destructive",
+          })
+        })
+        .finally(refreshStorageEstimate)
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [uploadedFiles, refreshStorageEstimate, toast])
 
   const handleFileUpload = useCallback(async (files: File[]) => {
     const pdfFiles = files.filter(file => file.type === 'application/pdf')
@@ -162,49 +221,63 @@ function App() {
         
         // Load the PDF to detect form fields
         let detectedFields: FormField[] = []
+        let pages: PageInfo[] = []
         try {
           const pdfDoc = await PDFDocument.load(pdfBytes)
-          const form = pdfDoc.getForm()
-          const formFields = form.getFields()
+          pages = readPageInfo(pdfDoc)
           
-          // Create form field objects from detected PDF fields
-          detectedFields = formFields.map((field, index) => {
-            const fieldName = field.getName()
-            let fieldType: FormField['type'] = 'text'
-            
-            // Determine field type based on PDF field type
-            if (field.constructor.name.includes('Text')) {
-              fieldType = 'text'
-            } else if (field.constructor.name.includes('CheckBox')) {
-              fieldType = 'checkbox'
-            } else if (field.constructor.name.includes('RadioGroup')) {
-              fieldType = 'radio'
-            } else if (field.constructor.name.includes('Dropdown')) {
-              fieldType = 'select'
-            }
-            
-            return {
-              id: `field_${index}`,
-              name: fieldName,
-              type: fieldType,
-              label: fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()),
-              value: fieldType === 'checkbox' ? false : '',
-              required: false,
-              placeholder: `Enter ${fieldName}`
-            }
-          })
+          // Create form field objects, including options, flags, existing values and widget positions
+          detectedFields = detectFormFields(pdfDoc)
         } catch (formError) {
           console.warn('Could not detect form fields:', formError)
         }
+
+        // Label fields without a tooltip from the text printed next to them
+        try {
+          detectedFields = await resolvePageTextLabels(pdfBytes, detectedFields)
+        } catch (labelError) {
+          console.warn('Could not read page text for field labels:', labelError)
+        }
         
-        // If no form fields detected, use mock fields
-        const fieldsToUse = detectedFields.length > 0 ? detectedFields : mockFormFields.map(field => ({ ...field, value: field.type === 'checkbox' ? false : '' }))
+        // Recognize forms handled before and reapply their saved template
+        const fingerprint = detectedFields.length > 0 ? await fingerprintFields(detectedFields) : undefined
+        const template = fingerprint ? templates.find(candidate => candidate.fingerprint === fingerprint) : undefined
+        if (template) {
+          detectedFields = applyTemplate(detectedFields, template)
+          toast({
+            title: "Form recognized",
+            description: `Applied the "${template.name}" template to ${file.name}.`,
+          })
+        }
+
+        // Offer typed inputs, now that labels from the page and the template are known
+        detectedFields = detectedFields.map(withInferredInputType)
+
+        const fieldsToUse = withCalculatedValues(detectedFields)
+
+        // Flat PDFs get suggested fields from the lines and boxes printed on the page
+        let suggestedFields: FormField[] = []
+        if (detectedFields.length === 0) {
+          try {
+            suggestedFields = await detectFieldCandidates(pdfBytes, [])
+          } catch (detectionError) {
+            console.warn('Could not detect fields from the page layout:', detectionError)
+          }
+        }
         
-        // Show info about detected fields
+        // Show info about detected fields; flat PDFs get their fields from the form designer
         if (detectedFields.length > 0) {
           console.log(`Detected ${detectedFields.length} form fields in ${file.name}:`, detectedFields.map(f => f.name))
+        } else if (suggestedFields.length > 0) {
+          toast({
+            title: "No fillable fields",
+            description: `Found ${suggestedFields.length} possible fields in ${file.name}. Review them in Design Form.`,
+          })
         } else {
-          console.log(`No form fields detected in ${file.name}, using mock fields for demonstration`)
+          toast({
+            title: "No fillable fields",
+            description: `${file.name} has no form fields. Use Design Form to draw them on the page.`,
+          })
         }
         
         // Update progress
@@ -217,7 +290,11 @@ function App() {
           uploadDate: new Date(),
           fields: fieldsToUse,
           pdfBytes: pdfBytes,
-          pdfUrl: pdfUrl
+          pdfUrl: pdfUrl,
+          pages,
+          fingerprint,
+          templateId: template?.id,
+          suggestedFields: suggestedFields.length > 0 ? suggestedFields : undefined,
         }
 
         setUploadedFiles(prev => [...prev, newFile])
@@ -242,7 +319,7 @@ function App() {
       title: "Success",
       description: `Successfully uploaded ${pdfFiles.length} PDF file(s).`,
     })
-  }, [mockFormFields, selectedFile, toast])
+  }, [selectedFile, templates, toast])
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -271,15 +348,10 @@ function App() {
     e.target.value = ''
   }, [handleFileUpload])
 
-  const handleFieldChange = (fieldId: string, value: string | boolean) => {
+  const updateSelectedFile = (update: (file: UploadedFile) => UploadedFile) => {
     if (!selectedFile) return
 
-    const updatedFile = {
-      ...selectedFile,
-      fields: selectedFile.fields.map(field =>
-        field.id === fieldId ? { ...field, value } : field
-      )
-    }
+    const updatedFile = update(selectedFile)
 
     setSelectedFile(updatedFile)
     setUploadedFiles(prev =>
@@ -287,7 +359,471 @@ function App() {
     )
   }
 
-  const handleDownload = async () => {
+  // Calculated fields follow every change to the values they depend on
+  const applyFieldValues = (values: Record<string, string | boolean>) => {
+    updateSelectedFile(file => ({
+      ...file,
+      fields: withCalculatedValues(file.fields.map(field =>
+        field.id in values ? { ...field, value: values[field.id] } : field
+      ))
+    }))
+  }
+
+  // Applies several values at once, keyed by field id, as one undoable edit
+  const handleFieldValuesChange = (values: Record<string, string | boolean>, coalesceKey?: string) => {
+    if (!selectedFile) return
+
+    const before = Object.fromEntries(
+      selectedFile.fields.filter(field => field.id in values).map(field => [field.id, field.value])
+    )
+    const after = Object.fromEntries(Object.keys(before).map(fieldId => [fieldId, values[fieldId]]))
+    setEditHistories(prev => ({
+      ...prev,
+      [selectedFile.id]: recordEdit(prev[selectedFile.id] ?? emptyEditHistory, { before, after, at: Date.now(), coalesceKey }),
+    }))
+    applyFieldValues(values)
+  }
+
+  // Typing into one field undoes as a single edit
+  const handleFieldChange = (fieldId: string, value: string | boolean) => {
+    handleFieldValuesChange({ [fieldId]: value }, fieldId)
+  }
+
+  // Formatted fields reject characters their format never accepts while typing...
+  const handleTextChange = (field: FormField, text: string) => {
+    const format = getFieldFormat(field)
+    handleFieldChange(field.id, format ? filterKeystroke(format, text) : text)
+  }
+
+  // ...and show the formatted value, e.g. "$1,234.50", once the user leaves them
+  const handleTextBlur = (field: FormField) => {
+    const format = getFieldFormat(field)
+    if (!format || typeof field.value !== 'string') return
+
+    const formatted = formatDisplayValue(format, field.value)
+    if (formatted !== field.value) handleFieldChange(field.id, formatted)
+  }
+
+  const handleInputTypeChange = (fieldId: string, inputType: InputType | undefined) => {
+    updateSelectedFile(file => ({
+      ...file,
+      fields: withCalculatedValues(file.fields.map(field =>
+        field.id === fieldId ? withInputType(field, inputType) : field
+      ))
+    }))
+  }
+
+  const editHistory = (selectedFile && editHistories[selectedFile.id]) || emptyEditHistory
+
+  const handleUndo = () => {
+    const result = undoEdit(editHistory)
+    if (!selectedFile || !result) return
+
+    setEditHistories(prev => ({ ...prev, [selectedFile.id]: result.history }))
+    applyFieldValues(result.values)
+  }
+
+  const handleRedo = () => {
+    const result = redoEdit(editHistory)
+    if (!selectedFile || !result) return
+
+    setEditHistories(prev => ({ ...prev, [selectedFile.id]: result.history }))
+    applyFieldValues(result.values)
+  }
+
+  // Undo and redo shortcuts, also while typing in the form's fields; see historyShortcut
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const shortcut = historyShortcut(e)
+      if (!shortcut) return
+      e.preventDefault()
+      if (shortcut === 'undo') handleUndo()
+      else handleRedo()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  const handleApplyTemplate = (template: FormTemplate) => {
+    updateSelectedFile(file => ({ ...file, fields: applyTemplate(file.fields, template), templateId: template.id }))
+    setIsTemplateLibraryOpen(false)
+    toast({
+      title: "Template applied",
+      description: `Applied the "${template.name}" template.`,
+    })
+  }
+
+  const handleAutofill = (values: Record<string, string>) => {
+    handleFieldValuesChange(values)
+    toast({
+      title: "Autofilled",
+      description: `Filled ${Object.keys(values).length} field(s) from your profile.`,
+    })
+  }
+
+  const handleClearForm = () => {
+    if (!selectedFile) return
+
+    handleFieldValuesChange(Object.fromEntries(
+      selectedFile.fields
+        .filter(field => !field.readOnly && !field.calculation)
+        .map(field => [field.id, field.type === 'checkbox' ? false : ''])
+    ))
+    toast({
+      title: "Form cleared",
+      description: "All values were cleared. Press Ctrl+Z to undo.",
+    })
+  }
+
+  const handleFormDataExport = (format: FormDataFormat) => {
+    if (!selectedFile) return
+
+    const exporters: Record<FormDataFormat, { content: () => string; mimeType: string }> = {
+      json: { content: () => exportJson(selectedFile), mimeType: 'application/json' },
+      xfdf: { content: () => exportXfdf(selectedFile.fields, selectedFile.name), mimeType: 'application/vnd.adobe.xfdf' },
+      fdf: { content: () => exportFdf(selectedFile.fields, selectedFile.name), mimeType: 'application/vnd.fdf' },
+    }
+    const { content, mimeType } = exporters[format]
+    downloadBlob(new Blob([content()], { type: mimeType }), `${baseFileName(selectedFile.name)}.${format}`)
+  }
+
+  const handleJsonImport = (file: File, text: string) => {
+    if (!selectedFile) return
+
+    const { values, unmatched, mismatched } = parseJsonImport(text, selectedFile.fields)
+    handleFieldValuesChange(values)
+
+    const problems = [
+      unmatched.length > 0 && `No matching field for: ${unmatched.join(', ')}.`,
+      mismatched.length > 0 && `Wrong type for: ${mismatched.join(', ')}.`,
+    ].filter(Boolean)
+    toast({
+      title: problems.length > 0 ? "Data loaded with problems" : "Data loaded",
+      description: `Filled ${Object.keys(values).length} field(s) from ${file.name}. ${problems.join(' ')}`.trim(),
+      variant: mismatched.length > 0 ? "destructive" : undefined,
+    })
+  }
+
+  const handleFormDataImport = async (file: File) => {
+    if (!selectedFile) return
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const text = new TextDecoder().decode(bytes)
+      if (text.trimStart().startsWith('{')) {
+        handleJsonImport(file, text)
+        return
+      }
+
+      const isFdf = new TextDecoder().decode(bytes.slice(0, 5)) === '%FDF-'
+      const entries = isFdf ? parseFdf(bytes) : parseXfdf(text)
+      const { values, unmatched } = matchImportedEntries(selectedFile.fields, entries)
+
+      handleFieldValuesChange(values)
+      toast({
+        title: "Data imported",
+        description: unmatched.length > 0
+          ? `Filled ${Object.keys(values).length} field(s). No matching field for: ${unmatched.join(', ')}`
+          : `Filled ${Object.keys(values).length} field(s) from ${file.name}.`,
+      })
+    } catch (error) {
+      console.error('Error importing form data:', error)
+      toast({
+        title: "Import Error",
+        description: `Could not read ${file.name} as JSON, XFDF or FDF.`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Restoring is itself an edit, so it shows up as a new version once saved
+  const handleRestoreVersion = (snapshot: FieldSnapshot) => {
+    if (!selectedFile) return
+
+    const values = Object.fromEntries(
+      Object.entries(snapshot.values).filter(([fieldId]) => selectedFile.fields.some(field => field.id === fieldId))
+    )
+    handleFieldValuesChange(values)
+    setIsHistoryOpen(false)
+    toast({
+      title: "Version restored",
+      description: `Values from ${snapshot.createdAt.toLocaleString()} were restored.`,
+    })
+  }
+
+  const handleClearLocalData = async () => {
+    try {
+      await clearLocalData()
+    } catch (error) {
+      console.error('Error clearing local data:', error)
+      toast({
+        title: "Error",
+        description: "Could not clear the data stored in this browser.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    uploadedFiles.forEach(file => URL.revokeObjectURL(file.pdfUrl))
+    savedFilesRef.current.clear()
+    setEditHistories({})
+    setTemplates([])
+    setUploadedFiles([])
+    setSelectedFile(null)
+    setNumPages(null)
+    setFocusedFieldId(null)
+    refreshStorageEstimate()
+    toast({
+      title: "Local data cleared",
+      description: "All uploaded PDFs, values, profiles and templates were removed from this browser.",
+    })
+  }
+
+  const handleKeepEditableChange = (fieldId: string, keepEditable: boolean) => {
+    updateSelectedFile(file => ({
+      ...file,
+      fields: file.fields.map(field =>
+        field.id === fieldId ? { ...field, keepEditable } : field
+      )
+    }))
+  }
+
+  // Adds a signature field at the clicked spot of a page without a signature widget
+  const handlePlaceSignature = (point: { x: number; y: number }) => {
+    if (!selectedFile || !currentPage) return
+
+    // Default box is 180 x 54 as displayed, so swap its sides on sideways pages
+    const sideways = currentPage.rotation % 180 !== 0
+    const width = sideways ? 54 : 180
+    const height = sideways ? 180 : 54
+    const placedCount = selectedFile.fields.filter(field => field.type === 'signature' && field.name.startsWith('Placed Signature')).length
+    const signatureField: FormField = {
+      id: `signature_${Date.now()}`,
+      name: `Placed Signature ${placedCount + 1}`,
+      type: 'signature',
+      label: 'Signature',
+      value: '',
+      widgets: [{
+        pageIndex: pageNumber - 1,
+        rect: { x: point.x - width / 2, y: point.y - height / 2, width, height },
+      }],
+    }
+
+    updateSelectedFile(file => ({ ...file, fields: [...file.fields, signatureField] }))
+    setIsPlacingSignature(false)
+    setFocusedFieldId(signatureField.id)
+    setSignatureFieldId(signatureField.id)
+  }
+
+  const handleSaveRules = (rules: ValidationRule[]) => {
+    if (!rulesFieldId) return
+
+    updateSelectedFile(file => ({
+      ...file,
+      fields: file.fields.map(field =>
+        field.id === rulesFieldId ? { ...field, validation: rules } : field
+      )
+    }))
+    setRulesFieldId(null)
+  }
+
+  const handleSaveConditions = (conditions: FieldCondition[]) => {
+    if (!conditionsFieldId) return
+
+    updateSelectedFile(file => ({
+      ...file,
+      fields: file.fields.map(field =>
+        field.id === conditionsFieldId ? { ...field, conditions } : field
+      )
+    }))
+    setConditionsFieldId(null)
+  }
+
+  // Draws a new field, or another button of the designed radio group being edited
+  const handleDesignRect = (rect: PdfRect) => {
+    if (!selectedFile) return
+
+    const widget = { pageIndex: pageNumber - 1, rect }
+    const focusedField = selectedFile.fields.find(field => field.id === focusedFieldId)
+    if (designFieldType === 'radio' && focusedField?.designed && focusedField.type === 'radio') {
+      updateSelectedFile(file => ({
+        ...file,
+        fields: file.fields.map(field => field.id === focusedField.id ? addRadioChoice(field, widget) : field)
+      }))
+      return
+    }
+
+    const designedField = createDesignedField(designFieldType, selectedFile.fields, widget)
+    updateSelectedFile(file => ({ ...file, fields: [...file.fields, designedField] }))
+    setFocusedFieldId(designedField.id)
+  }
+
+  // Accepted suggestions become designed fields, renamed if a field took their name meanwhile
+  const handleAcceptSuggestions = (suggestions: FormField[]) => {
+    const accepted = new Set(suggestions.map(suggestion => suggestion.id))
+    updateSelectedFile(file => {
+      const fields = [...file.fields]
+      suggestions.forEach(suggestion => {
+        const name = fields.some(field => field.name === suggestion.name) ? nextFieldName(fields, suggestion.name) : suggestion.name
+        fields.push({ ...suggestion, name })
+      })
+      const remaining = file.suggestedFields?.filter(suggestion => !accepted.has(suggestion.id))
+      return { ...file, fields, suggestedFields: remaining?.length ? remaining : undefined }
+    })
+  }
+
+  const handleRejectSuggestions = (suggestions: FormField[]) => {
+    const rejected = new Set(suggestions.map(suggestion => suggestion.id))
+    updateSelectedFile(file => {
+      const remaining = file.suggestedFields?.filter(suggestion => !rejected.has(suggestion.id))
+      return { ...file, suggestedFields: remaining?.length ? remaining : undefined }
+    })
+  }
+
+  // Runs detection again, skipping places that already have a field
+  const handleDetectFields = async () => {
+    if (!selectedFile) return
+
+    try {
+      const suggestedFields = await detectFieldCandidates(selectedFile.pdfBytes, selectedFile.fields)
+      updateSelectedFile(file => ({ ...file, suggestedFields: suggestedFields.length > 0 ? suggestedFields : undefined }))
+      toast({
+        title: suggestedFields.length > 0 ? "Fields detected" : "No fields detected",
+        description: suggestedFields.length > 0
+          ? `Found ${suggestedFields.length} possible fields. Accept or reject them on the page.`
+          : "No blank lines or boxes without a field were found.",
+      })
+    } catch (error) {
+      console.error('Error detecting fields:', error)
+      toast({
+        title: "Error",
+        description: "Could not analyse the page layout.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDesignFieldSelect = (field: FormField) => {
+    setFocusedFieldId(field.id)
+    setPropertiesFieldId(field.id)
+  }
+
+  // Edits to fields from the PDF are written back on download, under the name the PDF knows
+  const handleSaveFieldProperties = (updatedField: FormField) => {
+    const original = selectedFile?.fields.find(field => field.id === updatedField.id)
+    if (!original) return
+
+    const edited = updatedField.designed
+      ? updatedField
+      : { ...updatedField, propertiesEdited: true, pdfName: original.pdfName ?? original.name }
+    updateSelectedFile(file => {
+      const fields = file.fields.map(field => field.id === edited.id ? edited : field)
+      return { ...file, fields: edited.name === original.name ? fields : renameFieldReferences(fields, original.name, edited.name) }
+    })
+    setPropertiesFieldId(null)
+  }
+
+  const handleDeleteField = (fieldId: string) => {
+    const deleted = selectedFile?.fields.find(field => field.id === fieldId)
+    if (!selectedFile || !deleted) return
+
+    // Conditions, comparisons and calculations on the field go with it
+    const remaining = selectedFile.fields.filter(field => field.id !== fieldId)
+    const dependents = removeFieldReferences(remaining, deleted.name).filter((field, index) => field !== remaining[index])
+    updateSelectedFile(file => ({
+      ...file,
+      fields: removeFieldReferences(file.fields.filter(field => field.id !== fieldId), deleted.name),
+      deletedFields: deleted.designed ? file.deletedFields : [...(file.deletedFields ?? []), deleted.pdfName ?? deleted.name],
+    }))
+    setPropertiesFieldId(null)
+    setFocusedFieldId(null)
+    if (dependents.length > 0) {
+      toast({
+        title: "Field deleted",
+        description: `Conditions, rules or calculations that used ${deleted.label} were removed from ${dependents.map(field => field.label).join(', ')}.`,
+      })
+    }
+  }
+
+  const handleSaveTabOrder = (fieldIds: string[]) => {
+    updateSelectedFile(file => ({
+      ...file,
+      fields: fieldIds.flatMap(fieldId => file.fields.filter(field => field.id === fieldId)),
+      tabOrderEdited: true,
+    }))
+    setIsTabOrderOpen(false)
+  }
+
+  // Writes designed fields and edits into the stored PDF, which from then on is the form as edited
+  const handleSaveFormEdits = async () => {
+    if (!selectedFile) return
+
+    try {
+      const pdfBytes = await createFillablePdf(selectedFile.pdfBytes, selectedFile.fields, getFormEdits(selectedFile))
+      const pdfUrl = URL.createObjectURL(new Blob([pdfBytes], { type: 'application/pdf' }))
+      const fields = selectedFile.fields.map(field => ({ ...field, designed: undefined, propertiesEdited: undefined, pdfName: undefined }))
+      const fingerprint = await fingerprintFields(fields)
+
+      URL.revokeObjectURL(selectedFile.pdfUrl)
+      updateSelectedFile(file => ({ ...file, pdfBytes, pdfUrl, fields, fingerprint, deletedFields: undefined, tabOrderEdited: undefined }))
+      setIsDesigning(false)
+      toast({
+        title: "Fields saved",
+        description: `The fields of ${selectedFile.name} were saved into the PDF. Download it blank to reuse it as a template.`,
+      })
+    } catch (error) {
+      console.error('Error saving form edits:', error)
+      toast({
+        title: "Error",
+        description: "Could not save the fields into the PDF.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // The PDF with its fields but no values, to fill again later or elsewhere
+  const handleDownloadBlankForm = async () => {
+    if (!selectedFile) return
+
+    try {
+      const pdfBytes = await createFillablePdf(selectedFile.pdfBytes, selectedFile.fields, getFormEdits(selectedFile))
+      downloadBlob(new Blob([pdfBytes], { type: 'application/pdf' }), `${baseFileName(selectedFile.name)}-fillable.pdf`)
+    } catch (error) {
+      console.error('Error creating fillable PDF:', error)
+      toast({
+        title: "Download Error",
+        description: "Could not create the fillable PDF.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Downloads only once validation passes; otherwise the check dialog lists the problems
+  const handleDownload = () => {
+    if (!selectedFile) return
+
+    const violations = validateForm(applyConditions(selectedFile.fields))
+    if (violations.length > 0) {
+      setShowMissingFields(true)
+      setDownloadViolations(violations)
+      return
+    }
+    downloadFilledPdf()
+  }
+
+  // Records why the download went ahead despite failing validation
+  const handleValidationOverride = (reason: string) => {
+    const override = {
+      createdAt: new Date(),
+      reason,
+      violations: downloadViolations.map(violation => `${violation.label}: ${violation.message}`),
+    }
+    updateSelectedFile(file => ({ ...file, validationOverrides: [...(file.validationOverrides ?? []), override] }))
+    setDownloadViolations([])
+    downloadFilledPdf()
+  }
+
+  const downloadFilledPdf = async () => {
     if (!selectedFile) return
     
     try {
@@ -296,102 +832,28 @@ function App() {
         description: "Preparing your filled PDF for download...",
       })
 
-      // Load the original PDF
-      const pdfDoc = await PDFDocument.load(selectedFile.pdfBytes)
+      const { pdfBytes: filledPdfBytes, failedFields } = await fillPdf(selectedFile.pdfBytes, selectedFile.fields, {
+        appearanceFont: selectedFile.appearanceFont,
+        flatten: flattenOnDownload,
+        ...getFormEdits(selectedFile),
+      })
       
-      // Check if PDF has a form
-      let form: PDFForm | null = null
-      try {
-        form = pdfDoc.getForm()
-      } catch (formError) {
-        console.warn('PDF does not have fillable form fields:', formError)
-      }
+      // Create blob and download
+      const blob = new Blob([filledPdfBytes], { type: 'application/pdf' })
+      downloadBlob(blob, `filled-${baseFileName(selectedFile.name)}-${Date.now()}.pdf`)
       
-      // If PDF has form fields, try to fill them
-      if (form) {
-        const formFields = form.getFields()
-        console.log('Available form fields:', formFields.map(f => f.getName()))
-        
-        selectedFile.fields.forEach(field => {
-          try {
-            if (field.value && field.value !== '') {
-              // Try to find the field in the actual PDF form
-              const pdfField = formFields.find(f => f.getName() === field.name)
-              if (pdfField) {
-                if (field.type === 'checkbox') {
-                  const checkboxField = form.getCheckBox(field.name)
-                  if (field.value) {
-                    checkboxField.check()
-                  } else {
-                    checkboxField.uncheck()
-                  }
-                } else if (field.type === 'radio') {
-                  const radioGroup = form.getRadioGroup(field.name)
-                  radioGroup.select(field.value as string)
-                } else if (field.type === 'select') {
-                  const dropdown = form.getDropdown(field.name)
-                  dropdown.select(field.value as string)
-                } else {
-                  // Text fields
-                  const textField = form.getTextField(field.name)
-                  textField.setText(field.value as string)
-                }
-                console.log(`Successfully filled field: ${field.name} = ${field.value}`)
-              } else {
-                console.warn(`Field ${field.name} not found in PDF form`)
-              }
-            }
-          } catch (fieldError) {
-            console.warn(`Could not fill field ${field.name}:`, fieldError)
-            // Continue with other fields even if one fails
-          }
+      if (failedFields.length > 0) {
+        toast({
+          title: "Downloaded with blank fields",
+          description: `Could not fill: ${failedFields.join(', ')}. Try another font for this document.`,
+          variant: "destructive",
         })
       } else {
-        // If no form fields, create a simple text overlay (fallback)
-        console.log('No form fields found, creating a data summary page')
-        
-        // Add a new page with the form data as text
-        const page = pdfDoc.addPage()
-        const { width, height } = page.getSize()
-        
-        page.drawText('Form Data Summary', {
-          x: 50,
-          y: height - 50,
-          size: 16,
-        })
-        
-        let yPosition = height - 100
-        selectedFile.fields.forEach(field => {
-          if (field.value && field.value !== '') {
-            const text = `${field.label}: ${field.value}`
-            page.drawText(text, {
-              x: 50,
-              y: yPosition,
-              size: 12,
-            })
-            yPosition -= 25
-          }
+        toast({
+          title: "Success",
+          description: "Filled PDF downloaded successfully!",
         })
       }
-      
-      // Save the filled PDF
-      const filledPdfBytes = await pdfDoc.save()
-      
-      // Create blob and download
-      const blob = new Blob([filledPdfBytes], { type: 'application/pdf' })
-      const url = URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `filled-${selectedFile.name.replace('.pdf', '')}-${Date.now()}.pdf`
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      URL.revokeObjectURL(url)
-      
-      toast({
-        title: "Success",
-        description: "Filled PDF downloaded successfully!",
-      })
     } catch (error) {
       console.error('Error filling PDF:', error)
       toast({
@@ -405,8 +867,28 @@ function App() {
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages)
     setPageNumber(1)
+    setFocusedFieldId(null)
   }
 
+  // Jump the preview to the page holding the field, unless one of its widgets is already visible
+  const handleFieldFocus = (field: FormField) => {
+    setFocusedFieldId(field.id)
+
+    const widgets = field.widgets ?? []
+    if (widgets.length > 0 && !widgets.some(widget => widget.pageIndex === pageNumber - 1)) {
+      setPageNumber(widgets[0].pageIndex + 1)
+    }
+  }
+
+  // Fields hidden by their conditions drop out of the panel, validation and completion
+  const visibleFields = selectedFile ? applyConditions(selectedFile.fields) : []
+  const violations = validateForm(visibleFields)
+  const completion = selectedFile ? getCompletion(visibleFields) : null
+
+  const pageWidth = Math.min(600, window.innerWidth - 100) * zoom
+  const currentPage = selectedFile?.pages[pageNumber - 1]
+  const pageScale = currentPage ? pageWidth / getViewportSize(currentPage).width : 1
+
   const onDocumentLoadError = (error: Error) => {
     console.error('Error loading PDF:', error)
     toast({
@@ -416,43 +898,80 @@ function App() {
     })
   }
 
-  const getCompletionPercentage = () => {
-    if (!selectedFile) return 0
-    
-    const requiredFields = selectedFile.fields.filter(field => field.required)
-    const completedFields = requiredFields.filter(field => {
-      if (field.type === 'checkbox') return true // Checkboxes are always "complete"
-      return field.value && field.value.toString().trim() !== ''
-    })
-    
-    return Math.round((completedFields.length / requiredFields.length) * 100)
+  const handleAcknowledgementChange = (fieldId: string, required: boolean) => {
+    updateSelectedFile(file => ({
+      ...file,
+      fields: file.fields.map(field =>
+        field.id === fieldId ? { ...field, required } : field
+      )
+    }))
+  }
+
+  // Focuses the next field still to fill in, required fields first
+  const handleNextIncomplete = () => {
+    if (!selectedFile || !completion) return
+
+    const fieldId = nextIncompleteFieldId(completion, visibleFields, focusedFieldId)
+    const field = visibleFields.find(candidate => candidate.id === fieldId)
+    if (!field) return
+
+    handleFieldFocus(field)
+    const element = document.getElementById(`field-${field.id}`)
+    element?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    element?.querySelector<HTMLElement>('input, textarea, button')?.focus({ preventScroll: true })
   }
 
   const renderFormField = (field: FormField) => {
     switch (field.type) {
-      case 'text':
+      case 'text': {
+        const format = getFieldFormat(field)
+        const datePattern = getDatePattern(field)
+        if (datePattern) {
+          return (
+            <DateInput
+              id={field.id}
+              value={field.value as string}
+              pattern={datePattern}
+              disabled={field.readOnly || field.calculation !== undefined}
+              onChange={(value) => handleTextChange(field, value)}
+              onBlur={() => handleTextBlur(field)}
+            />
+          )
+        }
         return (
           <Input
+            id={field.id}
+            type={field.inputType === 'email' ? 'email' : field.inputType === 'phone' ? 'tel' : 'text'}
+            inputMode={inputTypes.find(inputType => inputType.id === field.inputType)?.inputMode}
             value={field.value as string}
-            onChange={(e) => handleFieldChange(field.id, e.target.value)}
-            placeholder={field.placeholder}
+            onChange={(e) => handleTextChange(field, e.target.value)}
+            onBlur={() => handleTextBlur(field)}
+            placeholder={format ? formatHint(format) : field.placeholder}
+            maxLength={field.maxLength}
+            disabled={field.readOnly || field.calculation !== undefined}
             className="w-full"
           />
         )
+      }
       
-      case 'textarea':
+      case 'textarea': {
+        const format = getFieldFormat(field)
         return (
           <Textarea
             value={field.value as string}
-            onChange={(e) => handleFieldChange(field.id, e.target.value)}
-            placeholder={field.placeholder}
+            onChange={(e) => handleTextChange(field, e.target.value)}
+            onBlur={() => handleTextBlur(field)}
+            placeholder={format ? formatHint(format) : field.placeholder}
+            maxLength={field.maxLength}
+            disabled={field.readOnly || field.calculation !== undefined}
             className="w-full min-h-[80px]"
           />
         )
+      }
       
       case 'select':
         return (
-          <Select value={field.value as string} onValueChange={(value) => handleFieldChange(field.id, value)}>
+          <Select value={field.value as string} onValueChange={(value) => handleFieldChange(field.id, value)} disabled={field.readOnly}>
             <SelectTrigger className="w-full">
               <SelectValue placeholder="Select an option" />
             </SelectTrigger>
@@ -473,9 +992,11 @@ function App() {
               id={field.id}
               checked={field.value as boolean}
               onCheckedChange={(checked) => handleFieldChange(field.id, checked as boolean)}
+              disabled={field.readOnly}
             />
             <Label htmlFor={field.id} className="text-sm font-normal">
               {field.label}
+              {field.required && <span className="text-red-500 ml-1">*</span>}
             </Label>
           </div>
         )
@@ -485,6 +1006,7 @@ function App() {
           <RadioGroup
             value={field.value as string}
             onValueChange={(value) => handleFieldChange(field.id, value)}
+            disabled={field.readOnly}
           >
             {field.options?.map((option) => (
               <div key={option} className="flex items-center space-x-2">
@@ -497,6 +1019,30 @@ function App() {
           </RadioGroup>
         )
       
+      case 'signature':
+        return (
+          <div className="space-y-2">
+            {field.value ? (
+              <div className="flex h-20 items-center justify-center rounded-md border border-gray-200 bg-white p-2">
+                <img src={field.value as string} alt={field.label} className="max-h-full max-w-full object-contain" />
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Not signed yet</p>
+            )}
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setSignatureFieldId(field.id)} disabled={field.readOnly}>
+                <PenLine className="h-4 w-4 mr-2" />
+                {field.value ? 'Change Signature' : 'Sign'}
+              </Button>
+              {field.value && (
+                <Button variant="ghost" size="sm" onClick={() => handleFieldChange(field.id, '')}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        )
+      
       default:
         return null
     }
@@ -514,8 +1060,67 @@ function App() {
           
           {selectedFile && (
             <div className="flex items-center space-x-4">
-              <div className="text-sm text-gray-600">
-                Progress: {getCompletionPercentage()}%
+              {completion && (
+                <div className="text-sm text-gray-600">
+                  {completion.required.total > 0
+                    ? `Required: ${completion.required.completed}/${completion.required.total}`
+                    : 'No required fields'}
+                  {' · '}
+                  Optional: {completion.optional.completed}/{completion.optional.total}
+                </div>
+              )}
+              <Select
+                value={selectedFile.appearanceFont ?? 'auto'}
+                onValueChange={(value) => updateSelectedFile(file => ({ ...file, appearanceFont: value as AppearanceFontId }))}
+              >
+                <SelectTrigger className="w-56" title="Font used for filled-in values">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {appearanceFonts.map((font) => (
+                    <SelectItem key={font.id} value={font.id}>
+                      Font: {font.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="flatten-on-download"
+                  checked={flattenOnDownload}
+                  onCheckedChange={setFlattenOnDownload}
+                />
+                <Label htmlFor="flatten-on-download" className="text-sm font-normal text-gray-600">
+                  Flatten fields
+                </Label>
+              </div>
+              <Button variant="outline" onClick={() => setIsHistoryOpen(true)}>
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+              <Button variant="outline" onClick={() => setIsBatchFillOpen(true)}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Batch Fill
+              </Button>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleUndo}
+                  disabled={editHistory.past.length === 0}
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleRedo}
+                  disabled={editHistory.future.length === 0}
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="h-4 w-4" />
+                </Button>
               </div>
               <Button onClick={handleDownload} className="bg-blue-600 hover:bg-blue-700">
                 <Download className="h-4 w-4 mr-2" />
@@ -534,7 +1139,13 @@ function App() {
           <div className="lg:col-span-1">
             <Card className="h-full">
               <CardHeader>
-                <CardTitle className="text-lg">Files</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Files</CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => setIsTemplateLibraryOpen(true)}>
+                    <LayoutTemplate className="h-4 w-4 mr-2" />
+                    Templates
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent className="space-y-4">
                 {/* Upload Area */}
@@ -608,6 +1219,14 @@ function App() {
                     </div>
                   ))}
                 </div>
+
+                {/* Local Storage */}
+                {uploadedFiles.length > 0 && (
+                  <>
+                    <Separator />
+                    <StorageStatus estimate={storageEstimate} onClear={handleClearLocalData} />
+                  </>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -643,14 +1262,142 @@ function App() {
                           </Button>
                         </div>
                       )}
-                      <Badge variant="outline">
-                        {getCompletionPercentage()}% Complete
-                      </Badge>
+                      <Button
+                        variant={isPlacingSignature ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setIsPlacingSignature(!isPlacingSignature)}
+                        disabled={isDesigning}
+                        title="Click on the page to place a signature"
+                      >
+                        <PenLine className="h-4 w-4 mr-2" />
+                        {isPlacingSignature ? 'Click to Place' : 'Place Signature'}
+                      </Button>
+                      <Button
+                        variant={isDesigning ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => {
+                          setIsDesigning(!isDesigning)
+                          setIsPlacingSignature(false)
+                        }}
+                        title="Draw fillable fields on the page"
+                      >
+                        <PencilRuler className="h-4 w-4 mr-2" />
+                        Design Form
+                      </Button>
+                      <div className="flex items-center space-x-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setZoom(Math.max(0.5, zoom - 0.25))}
+                          disabled={zoom <= 0.5}
+                        >
+                          <ZoomOut className="h-4 w-4" />
+                        </Button>
+                        <span className="text-sm text-gray-600 w-12 text-center">
+                          {Math.round(zoom * 100)}%
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setZoom(Math.min(3, zoom + 0.25))}
+                          disabled={zoom >= 3}
+                        >
+                          <ZoomIn className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {completion && (
+                        <Badge variant="outline" title={`${completion.overall.percent}% of the form complete`}>
+                          Page {pageNumber}: {(completion.pages.get(pageNumber - 1) ?? completion.overall).percent}% Complete
+                        </Badge>
+                      )}
                     </div>
                   </div>
+                  {isDesigning && (
+                    <div className="flex flex-wrap items-center gap-2 rounded-md border border-green-200 bg-green-50 p-2">
+                      <span className="text-xs text-gray-600">Drag on the page to draw:</span>
+                      {designFieldTypes.map((designType) => (
+                        <Button
+                          key={designType.id}
+                          variant={designFieldType === designType.id ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setDesignFieldType(designType.id)}
+                        >
+                          {designType.name}
+                        </Button>
+                      ))}
+                      <div className="ml-auto flex items-center space-x-2">
+                        {selectedFile.suggestedFields && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => handleAcceptSuggestions(selectedFile.suggestedFields ?? [])}
+                            >
+                              <Check className="h-3 w-3 mr-1" />
+                              Accept All ({selectedFile.suggestedFields.length})
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => handleRejectSuggestions(selectedFile.suggestedFields ?? [])}
+                            >
+                              Reject All
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={handleDetectFields}
+                          title="Suggest fields for the blank lines and boxes on the page"
+                        >
+                          <ScanSearch className="h-3 w-3 mr-1" />
+                          Detect Fields
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setIsTabOrderOpen(true)}
+                          disabled={selectedFile.fields.length < 2}
+                        >
+                          <ListOrdered className="h-3 w-3 mr-1" />
+                          Tab Order
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={handleSaveFormEdits}
+                          disabled={!hasFormEdits(selectedFile)}
+                          title="Save the drawn fields and field edits into this PDF"
+                        >
+                          <Save className="h-3 w-3 mr-1" />
+                          Save Fields
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={handleDownloadBlankForm}
+                          title="Download the fillable PDF without values"
+                        >
+                          <FileDown className="h-3 w-3 mr-1" />
+                          Download Blank Form
+                        </Button>
+                        <Button size="sm" className="h-7 px-2 text-xs" onClick={() => setIsDesigning(false)}>
+                          Done
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </CardHeader>
                 <CardContent className="h-full overflow-auto">
-                  <div className="flex justify-center">
+                  <div className="flex justify-center min-w-fit">
                     <Document
                       file={selectedFile.pdfUrl}
                       onLoadSuccess={onDocumentLoadSuccess}
@@ -680,13 +1427,45 @@ function App() {
                     >
                       <Page
                         pageNumber={pageNumber}
-                        width={Math.min(600, window.innerWidth - 100)}
+                        width={pageWidth}
                         renderTextLayer={false}
                         renderAnnotationLayer={true}
                         onLoadError={(error) => {
                           console.error('Page load error:', error)
                         }}
-                      />
+                      >
+                        {/* The designer draws fields; otherwise inputs laid over the widgets fill them on the page itself */}
+                        {currentPage && isDesigning && (
+                          <DesignOverlay
+                            fields={selectedFile.fields}
+                            page={currentPage}
+                            pageIndex={pageNumber - 1}
+                            scale={pageScale}
+                            fieldType={designFieldType}
+                            selectedFieldId={focusedFieldId}
+                            suggestions={selectedFile.suggestedFields ?? []}
+                            onDraw={handleDesignRect}
+                            onFieldSelect={handleDesignFieldSelect}
+                            onSuggestionAccept={(field) => handleAcceptSuggestions([field])}
+                            onSuggestionReject={(field) => handleRejectSuggestions([field])}
+                          />
+                        )}
+                        {currentPage && !isDesigning && (
+                          <FieldOverlay
+                            fields={visibleFields}
+                            page={currentPage}
+                            pageIndex={pageNumber - 1}
+                            scale={pageScale}
+                            focusedFieldId={focusedFieldId}
+                            onFieldChange={handleFieldChange}
+                            onTextChange={handleTextChange}
+                            onTextBlur={handleTextBlur}
+                            onFieldFocus={handleFieldFocus}
+                            onSignatureRequest={(field) => setSignatureFieldId(field.id)}
+                            onPagePointClick={isPlacingSignature ? handlePlaceSignature : undefined}
+                          />
+                        )}
+                      </Page>
                     </Document>
                   </div>
                   <div className="mt-4 text-center text-xs text-gray-500">
@@ -715,22 +1494,166 @@ function App() {
           <div className="lg:col-span-1">
             <Card className="h-full">
               <CardHeader>
-                <CardTitle className="text-lg">Form Fields</CardTitle>
-                {selectedFile && (
-                  <Progress value={getCompletionPercentage()} className="w-full" />
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Form Fields</CardTitle>
+                  {selectedFile && (
+                    <div className="flex items-center space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => setIsAutofillOpen(true)}>
+                        <UserRound className="h-4 w-4 mr-2" />
+                        Autofill
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={handleClearForm}>
+                        <Eraser className="h-4 w-4 mr-2" />
+                        Clear
+                      </Button>
+                      <FormDataMenu onExport={handleFormDataExport} onImport={handleFormDataImport} />
+                    </div>
+                  )}
+                </div>
+                {completion && (
+                  <div className="space-y-2">
+                    <Progress
+                      value={completion.required.total > 0 ? completion.required.percent : completion.overall.percent}
+                      className="w-full"
+                    />
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span>
+                        {completion.required.total > 0 && `Required ${completion.required.percent}% · `}
+                        Optional {completion.optional.percent}%
+                      </span>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={handleNextIncomplete}
+                        disabled={completion.incompleteFieldIds.length === 0}
+                      >
+                        {completion.incompleteFieldIds.length > 0
+                          ? `Next incomplete (${completion.incompleteFieldIds.length})`
+                          : 'All fields complete'}
+                      </Button>
+                    </div>
+                    {completion.sections.length > 1 && (
+                      <div className="space-y-1">
+                        {completion.sections.map((section) => (
+                          <div key={section.name} className="flex items-center space-x-2 text-xs text-gray-500">
+                            <span className="w-24 truncate" title={section.name}>{section.name}</span>
+                            <Progress value={section.progress.percent} className="h-1 flex-1" />
+                            <span>{section.progress.completed}/{section.progress.total}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
                 )}
               </CardHeader>
               <CardContent className="space-y-4 overflow-y-auto">
+                {selectedFile && visibleFields.length < selectedFile.fields.length && (
+                  <p className="text-xs text-gray-500">
+                    {selectedFile.fields.length - visibleFields.length} field(s) hidden by conditions
+                  </p>
+                )}
+                {selectedFile && selectedFile.fields.length === 0 && (
+                  <div className="text-center text-gray-500">
+                    <p className="text-sm">This PDF has no fillable fields.</p>
+                    <Button variant="link" size="sm" onClick={() => setIsDesigning(true)}>
+                      {selectedFile.suggestedFields
+                        ? `Review ${selectedFile.suggestedFields.length} suggested fields in Design Form`
+                        : 'Design Form to draw them'}
+                    </Button>
+                  </div>
+                )}
                 {selectedFile ? (
-                  selectedFile.fields.map((field) => (
-                    <div key={field.id} className="space-y-2">
+                  visibleFields.map((field) => (
+                    <div key={field.id} id={`field-${field.id}`} className="space-y-2" data-edit-history onFocus={() => handleFieldFocus(field)}>
                       {field.type !== 'checkbox' && (
-                        <Label htmlFor={field.id} className="text-sm font-medium">
-                          {field.label}
-                          {field.required && <span className="text-red-500 ml-1">*</span>}
-                        </Label>
+                        <div className="flex items-center justify-between space-x-2">
+                          <Label htmlFor={field.id} className="text-sm font-medium">
+                            {field.label}
+                            {field.required && <span className="text-red-500 ml-1">*</span>}
+                          </Label>
+                          {field.type === 'text' && !field.readOnly && !field.calculation && (
+                            <Select
+                              value={field.inputType ?? 'text'}
+                              onValueChange={(value) => handleInputTypeChange(field.id, value === 'text' ? undefined : value as InputType)}
+                            >
+                              <SelectTrigger className="h-6 w-auto px-2 text-xs text-gray-500 border-none shadow-none" title="Input type">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="text">Text</SelectItem>
+                                {inputTypes.map((inputType) => (
+                                  <SelectItem key={inputType.id} value={inputType.id}>{inputType.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
                       )}
                       {renderFormField(field)}
+                      {field.calculation && (
+                        <p className="text-xs text-gray-500 truncate" title={describeCalculation(field.calculation)}>
+                          Calculated: {describeCalculation(field.calculation)}
+                        </p>
+                      )}
+                      {violations
+                        .filter(violation => violation.fieldId === field.id && (showMissingFields || !violation.isMissing))
+                        .map((violation, index) => (
+                          <p key={index} className="text-xs text-red-600">{violation.message}</p>
+                        ))}
+                      <div className="flex items-center justify-between space-x-2">
+                        {field.labelSource ? (
+                          <p className="text-xs text-gray-400 truncate" title={field.name}>
+                            Label from {labelSourceNames[field.labelSource]}
+                          </p>
+                        ) : <span />}
+                        <div className="flex items-center space-x-2">
+                          {field.type === 'checkbox' && !field.readOnly && (
+                            <button
+                              type="button"
+                              className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                              onClick={() => handleAcknowledgementChange(field.id, !field.required)}
+                            >
+                              {field.required ? 'Make optional' : 'Must be ticked'}
+                            </button>
+                          )}
+                          {field.type !== 'signature' && !field.readOnly && !field.calculation && (
+                            <button
+                              type="button"
+                              className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                              onClick={() => setRulesFieldId(field.id)}
+                            >
+                              {field.validation?.length ? `Rules (${field.validation.length})` : 'Add rule'}
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                            onClick={() => setConditionsFieldId(field.id)}
+                          >
+                            {field.conditions?.length ? `Conditions (${field.conditions.length})` : 'Add condition'}
+                          </button>
+                          <button
+                            type="button"
+                            className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                            onClick={() => setPropertiesFieldId(field.id)}
+                          >
+                            Properties
+                          </button>
+                        </div>
+                      </div>
+                      {flattenOnDownload && field.type !== 'signature' && (
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`${field.id}-keep-editable`}
+                            checked={field.keepEditable ?? false}
+                            onCheckedChange={(checked) => handleKeepEditableChange(field.id, checked === true)}
+                          />
+                          <Label htmlFor={`${field.id}-keep-editable`} className="text-xs font-normal text-gray-500">
+                            Keep editable when flattening
+                          </Label>
+                        </div>
+                      )}
                     </div>
                   ))
                 ) : (
@@ -743,6 +1666,74 @@ function App() {
           </div>
         </div>
       </div>
+      <SignatureDialog
+        open={signatureFieldId !== null}
+        title={selectedFile?.fields.find(field => field.id === signatureFieldId)?.label ?? 'Signature'}
+        onOpenChange={(open) => !open && setSignatureFieldId(null)}
+        onSave={(signature) => signatureFieldId && handleFieldChange(signatureFieldId, signature)}
+      />
+      {selectedFile && (
+        <BatchFillDialog
+          open={isBatchFillOpen}
+          file={selectedFile}
+          flatten={flattenOnDownload}
+          onOpenChange={setIsBatchFillOpen}
+        />
+      )}
+      {selectedFile && (
+        <VersionHistory
+          open={isHistoryOpen}
+          file={selectedFile}
+          onOpenChange={setIsHistoryOpen}
+          onRestore={handleRestoreVersion}
+        />
+      )}
+      {selectedFile && (
+        <ProfileAutofillDialog
+          open={isAutofillOpen}
+          fields={selectedFile.fields}
+          onOpenChange={setIsAutofillOpen}
+          onApply={handleAutofill}
+        />
+      )}
+      <TemplateLibrary
+        open={isTemplateLibraryOpen}
+        file={selectedFile}
+        templates={templates}
+        onOpenChange={setIsTemplateLibraryOpen}
+        onTemplatesChange={setTemplates}
+        onApply={handleApplyTemplate}
+      />
+      <ValidationRulesDialog
+        field={selectedFile?.fields.find(field => field.id === rulesFieldId) ?? null}
+        fields={selectedFile?.fields ?? []}
+        onOpenChange={(open) => !open && setRulesFieldId(null)}
+        onSave={handleSaveRules}
+      />
+      <FieldConditionsDialog
+        field={selectedFile?.fields.find(field => field.id === conditionsFieldId) ?? null}
+        fields={selectedFile?.fields ?? []}
+        onOpenChange={(open) => !open && setConditionsFieldId(null)}
+        onSave={handleSaveConditions}
+      />
+      <FieldPropertiesDialog
+        field={selectedFile?.fields.find(field => field.id === propertiesFieldId) ?? null}
+        fields={selectedFile?.fields ?? []}
+        onOpenChange={(open) => !open && setPropertiesFieldId(null)}
+        onSave={handleSaveFieldProperties}
+        onDelete={handleDeleteField}
+      />
+      <TabOrderDialog
+        open={isTabOrderOpen}
+        fields={selectedFile?.fields ?? []}
+        onOpenChange={setIsTabOrderOpen}
+        onSave={handleSaveTabOrder}
+      />
+      <DownloadCheckDialog
+        violations={downloadViolations}
+        onCancel={() => setDownloadViolations([])}
+        onOverride={handleValidationOverride}
+      />
       <Toaster />
     </div>
   )
@@ -0,0 +1,303 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import JSZip from 'jszip'
+import Papa from 'papaparse'
+import { FileSpreadsheet, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+import { fillPdf } from '@/lib/fill-pdf'
+import { getFormEdits } from '@/lib/form-designer'
+import { autoMatchColumns, buildFileName, isMergeable, mergeRow, uniqueFileName } from '@/lib/mail-merge'
+import type { ColumnMapping, CsvRow } from '@/lib/mail-merge'
+import { baseFileName, downloadBlob } from '@/lib/download'
+import type { UploadedFile } from '@/types/form'
+
+interface BatchFillDialogProps {
+  open: boolean
+  file: UploadedFile
+  flatten: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface CsvData {
+  fileName: string
+  columns: string[]
+  rows: CsvRow[]
+}
+
+interface RowError {
+  row: number
+  fileName: string
+  error: string
+}
+
+const PREVIEW_ROWS = 3
+const UNMAPPED = '__unmapped__'
+
+// Lets the progress bar repaint between rows
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0))
+
+/**
+ * Mail merge: fills the selected PDF once per CSV row and downloads the
+ * results as a ZIP, with an errors.csv for rows that could not be filled.
+ */
+export function BatchFillDialog({ open, file, flatten, onOpenChange }: BatchFillDialogProps) {
+  const [csv, setCsv] = useState<CsvData | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [fileNamePattern, setFileNamePattern] = useState('')
+  const [progress, setProgress] = useState<number | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const mergeableFields = file.fields.filter(isMergeable)
+  const isGenerating = progress !== null
+
+  useEffect(() => {
+    if (!open) {
+      setCsv(null)
+      setMapping({})
+      setFileNamePattern('')
+      setProgress(null)
+    }
+  }, [open])
+
+  const handleCsvChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const csvFile = e.target.files?.[0]
+    e.target.value = ''
+    if (!csvFile) return
+
+    Papa.parse<CsvRow>(csvFile, {
+      header: true,
+      skipEmptyLines: 'greedy',
+      complete: ({ data, meta }) => {
+        const columns = (meta.fields ?? []).filter(column => column !== '')
+        if (columns.length === 0 || data.length === 0) {
+          toast({
+            title: "Empty CSV",
+            description: `${csvFile.name} has no header row or no data rows.`,
+            variant: "destructive",
+          })
+          return
+        }
+
+        setCsv({ fileName: csvFile.name, columns, rows: data })
+        setMapping(autoMatchColumns(file.fields, columns))
+        setFileNamePattern(`${baseFileName(file.name)}-{${columns[0]}}`)
+      },
+      error: (error) => {
+        console.error('Error parsing CSV:', error)
+        toast({
+          title: "CSV Error",
+          description: `Could not read ${csvFile.name}: ${error.message}`,
+          variant: "destructive",
+        })
+      },
+    })
+  }
+
+  const handleMappingChange = (fieldId: string, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (column === UNMAPPED) {
+        delete next[fieldId]
+      } else {
+        next[fieldId] = column
+      }
+      return next
+    })
+  }
+
+  const handleGenerate = async () => {
+    if (!csv) return
+
+    const zip = new JSZip()
+    const usedNames = new Set<string>()
+    const errors: RowError[] = []
+    setProgress(0)
+
+    for (const [index, row] of csv.rows.entries()) {
+      const rowNumber = index + 1
+      const fileName = uniqueFileName(buildFileName(fileNamePattern, row, rowNumber), usedNames)
+      try {
+        const { fields, problems } = mergeRow(file.fields, mapping, row)
+        const { pdfBytes, failedFields } = await fillPdf(file.pdfBytes, fields, {
+          appearanceFont: file.appearanceFont,
+          flatten,
+          ...getFormEdits(file),
+        })
+        zip.file(fileName, pdfBytes)
+
+        problems.forEach(problem => errors.push({ row: rowNumber, fileName, error: problem }))
+        failedFields.forEach(label => errors.push({ row: rowNumber, fileName, error: `Could not fill ${label}` }))
+      } catch (error) {
+        console.error(`Error filling row ${rowNumber}:`, error)
+        errors.push({ row: rowNumber, fileName, error: error instanceof Error ? error.message : String(error) })
+      }
+
+      setProgress(Math.round((rowNumber / csv.rows.length) * 100))
+      await nextFrame()
+    }
+
+    if (errors.length > 0) {
+      zip.file('errors.csv', Papa.unparse(errors, { columns: ['row', 'fileName', 'error'] }))
+    }
+
+    try {
+      const zipBlob = await zip.generateAsync({ type: 'blob' })
+      downloadBlob(zipBlob, `${baseFileName(file.name)}-batch-${Date.now()}.zip`)
+      const failedRows = new Set(errors.map(error => error.row)).size
+      toast({
+        title: failedRows > 0 ? "Batch filled with errors" : "Batch filled",
+        description: failedRows > 0
+          ? `${failedRows} of ${csv.rows.length} row(s) had problems. See errors.csv in the ZIP.`
+          : `Filled ${csv.rows.length} PDF(s) from ${csv.fileName}.`,
+        variant: failedRows > 0 ? "destructive" : undefined,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error building ZIP:', error)
+      toast({
+        title: "Batch Error",
+        description: "Could not build the ZIP file.",
+        variant: "destructive",
+      })
+      setProgress(null)
+    }
+  }
+
+  const mappedCount = Object.keys(mapping).length
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isGenerating && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Batch Fill from CSV</DialogTitle>
+          <DialogDescription>
+            Fill {file.name} once per CSV row. Columns are matched to fields by name; adjust the mapping below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center space-x-3">
+            <Button variant="outline" onClick={() => inputRef.current?.click()} disabled={isGenerating}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {csv ? 'Choose Another CSV' : 'Choose CSV'}
+            </Button>
+            {csv && (
+              <span className="text-sm text-gray-600">
+                {csv.fileName}: {csv.rows.length} row(s), {csv.columns.length} column(s)
+              </span>
+            )}
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleCsvChange}
+            />
+          </div>
+
+          {csv && (
+            <>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-900">
+                  Column mapping ({mappedCount} of {mergeableFields.length} fields)
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {mergeableFields.map((field) => (
+                    <div key={field.id} className="space-y-1">
+                      <Label className="text-xs text-gray-600">{field.label}</Label>
+                      <Select
+                        value={mapping[field.id] ?? UNMAPPED}
+                        onValueChange={(column) => handleMappingChange(field.id, column)}
+                        disabled={isGenerating}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Keep current value</SelectItem>
+                          {csv.columns.map((column) => (
+                            <SelectItem key={column} value={column}>{column}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {mappedCount > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-900">Preview</h3>
+                  <div className="rounded-md border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>File</TableHead>
+                          {mergeableFields.filter(field => mapping[field.id]).map((field) => (
+                            <TableHead key={field.id}>{field.label}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {csv.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="whitespace-nowrap">{buildFileName(fileNamePattern, row, index + 1)}</TableCell>
+                            {mergeableFields.filter(field => mapping[field.id]).map((field) => (
+                              <TableCell key={field.id}>{row[mapping[field.id]]}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="batch-file-name">File name pattern</Label>
+                <Input
+                  id="batch-file-name"
+                  value={fileNamePattern}
+                  onChange={(e) => setFileNamePattern(e.target.value)}
+                  disabled={isGenerating}
+                />
+                <p className="text-xs text-gray-500">
+                  Use {'{Column Name}'} for a column value and {'{row}'} for the row number.
+                </p>
+              </div>
+
+              {isGenerating && (
+                <div className="space-y-1">
+                  <Progress value={progress} />
+                  <p className="text-xs text-gray-500">{progress}% filled</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={!csv || isGenerating}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isGenerating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {csv ? `Generate ${csv.rows.length} PDF(s)` : 'Generate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
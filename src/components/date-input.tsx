@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import { CalendarDays } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { formatDate, parseDateText } from '@/lib/field-format'
+
+interface DateInputProps {
+  id?: string
+  value: string
+  pattern: string // Acrobat date pattern the value is written in, e.g. "mm/dd/yyyy"
+  disabled?: boolean
+  onChange: (value: string) => void
+  onBlur?: () => void
+}
+
+/**
+ * Date field that can be typed into or picked from a calendar. Picked
+ * dates are written in the field's pattern, so the PDF gets the text it
+ * expects.
+ */
+export function DateInput({ id, value, pattern, disabled, onChange, onBlur }: DateInputProps) {
+  const [open, setOpen] = useState(false)
+  const selected = value ? parseDateText(value, pattern) : undefined
+
+  return (
+    <div className="flex space-x-2">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={onBlur}
+        placeholder={pattern}
+        disabled={disabled}
+        className="w-full"
+      />
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" disabled={disabled} title="Pick a date">
+            <CalendarDays className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="single"
+            selected={selected}
+            defaultMonth={selected}
+            captionLayout="dropdown"
+            onSelect={(date) => {
+              if (!date) return
+              onChange(formatDate(date, pattern))
+              setOpen(false)
+            }}
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import type { PointerEvent } from 'react'
+import { Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { designFieldTypes, type DesignFieldType } from '@/lib/form-designer'
+import { fromViewportRect, toViewportRect, type ViewportRect } from '@/lib/pdf-geometry'
+import type { FormField, PageInfo, PdfRect } from '@/types/form'
+
+interface DesignOverlayProps {
+  fields: FormField[]
+  page: PageInfo
+  pageIndex: number
+  scale: number
+  fieldType: DesignFieldType
+  selectedFieldId: string | null
+  suggestions: FormField[]
+  onDraw: (rect: PdfRect) => void
+  onFieldSelect: (field: FormField) => void
+  onSuggestionAccept: (field: FormField) => void
+  onSuggestionReject: (field: FormField) => void
+}
+
+// Drags shorter than this, in CSS pixels, count as a click
+const MIN_DRAG = 4
+
+/**
+ * Drawing surface over the rendered page for the form designer. Dragging
+ * draws a new field; a click places one at the type's default size.
+ * Existing widgets are outlined and select their field when clicked, and
+ * detected suggestions are shown dashed with buttons to accept or reject.
+ */
+export function DesignOverlay({ fields, page, pageIndex, scale, fieldType, selectedFieldId, suggestions, onDraw, onFieldSelect, onSuggestionAccept, onSuggestionReject }: DesignOverlayProps) {
+  const [start, setStart] = useState<{ left: number; top: number } | null>(null)
+  const [draft, setDraft] = useState<ViewportRect | null>(null)
+
+  const pointOf = (e: PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    return { left: e.clientX - bounds.left, top: e.clientY - bounds.top }
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || e.target !== e.currentTarget) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setStart(pointOf(e))
+    setDraft(null)
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!start) return
+    const point = pointOf(e)
+    setDraft({
+      left: Math.min(start.left, point.left),
+      top: Math.min(start.top, point.top),
+      width: Math.abs(point.left - start.left),
+      height: Math.abs(point.top - start.top),
+    })
+  }
+
+  const handlePointerUp = () => {
+    if (!start) return
+
+    // The default size is as displayed, so fromViewportRect turns it on sideways pages
+    const { width, height } = designFieldTypes.find(designType => designType.id === fieldType)!
+    const rect = draft && (draft.width >= MIN_DRAG || draft.height >= MIN_DRAG)
+      ? draft
+      : { left: start.left - (width * scale) / 2, top: start.top - (height * scale) / 2, width: width * scale, height: height * scale }
+    setStart(null)
+    setDraft(null)
+    onDraw(fromViewportRect(rect, page, scale))
+  }
+
+  return (
+    <div
+      className="absolute inset-0 z-10 cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        setStart(null)
+        setDraft(null)
+      }}
+    >
+      {fields.flatMap(field =>
+        (field.widgets ?? [])
+          .filter(widget => widget.pageIndex === pageIndex)
+          .map((widget, index) => (
+            <button
+              key={`${field.id}-${index}`}
+              type="button"
+              title={field.label}
+              onClick={() => onFieldSelect(field)}
+              className={cn(
+                'absolute box-border overflow-hidden border text-left text-[10px] leading-none',
+                field.designed ? 'border-green-500 bg-green-100/60 text-green-800' : 'border-blue-300 bg-blue-50/60 text-blue-800',
+                field.id === selectedFieldId && 'border-2 border-blue-600'
+              )}
+              style={toViewportRect(widget.rect, page, scale)}
+            >
+              {widget.option && field.type === 'radio' ? widget.option : field.name}
+            </button>
+          ))
+      )}
+      {suggestions.flatMap(field =>
+        (field.widgets ?? [])
+          .filter(widget => widget.pageIndex === pageIndex)
+          .map((widget, index) => (
+            <div
+              key={`${field.id}-${index}`}
+              title={`Suggested ${field.type} field: ${field.label}`}
+              className="absolute box-border border border-dashed border-amber-500 bg-amber-100/50"
+              style={toViewportRect(widget.rect, page, scale)}
+            >
+              <div className="absolute -top-5 right-0 flex space-x-0.5">
+                <button
+                  type="button"
+                  title="Accept"
+                  onClick={() => onSuggestionAccept(field)}
+                  className="flex h-4 w-4 items-center justify-center rounded-sm bg-green-600 text-white hover:bg-green-700"
+                >
+                  <Check className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  title="Reject"
+                  onClick={() => onSuggestionReject(field)}
+                  className="flex h-4 w-4 items-center justify-center rounded-sm bg-gray-500 text-white hover:bg-gray-600"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+          ))
+      )}
+      {draft && (
+        <div className="pointer-events-none absolute border-2 border-dashed border-green-600 bg-green-200/40" style={draft} />
+      )}
+    </div>
+  )
+}
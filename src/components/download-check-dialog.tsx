@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { FieldViolation } from '@/lib/validation'
+
+interface DownloadCheckDialogProps {
+  violations: FieldViolation[]
+  onCancel: () => void
+  onOverride: (reason: string) => void
+}
+
+/**
+ * Shown before a download when fields fail validation: the user goes back
+ * to fix them, or downloads anyway after giving a reason.
+ */
+export function DownloadCheckDialog({ violations, onCancel, onOverride }: DownloadCheckDialogProps) {
+  const [reason, setReason] = useState('')
+  const open = violations.length > 0
+
+  useEffect(() => {
+    if (!open) setReason('')
+  }, [open])
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <AlertTriangle className="h-5 w-5 mr-2 text-amber-500" />
+            {violations.length} Validation Problem(s)
+          </DialogTitle>
+          <DialogDescription>Fix these fields before downloading, or give a reason to download anyway.</DialogDescription>
+        </DialogHeader>
+
+        <ul className="max-h-60 overflow-y-auto space-y-1">
+          {violations.map((violation, index) => (
+            <li key={`${violation.fieldId}-${index}`} className="text-sm">
+              <span className="font-medium text-gray-900">{violation.label}:</span>{' '}
+              <span className="text-red-600">{violation.message}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-1">
+          <Label htmlFor="override-reason">Reason for downloading anyway</Label>
+          <Textarea
+            id="override-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Applicant has no phone number"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Go Back and Fix
+          </Button>
+          <Button variant="destructive" onClick={() => onOverride(reason.trim())} disabled={reason.trim() === ''}>
+            Download Anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
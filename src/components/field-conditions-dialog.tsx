@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { conditionEffects, conditionTests, describeCondition } from '@/lib/conditions'
+import type { ConditionEffect, ConditionTest, FieldCondition, FormField } from '@/types/form'
+
+interface FieldConditionsDialogProps {
+  field: FormField | null
+  fields: FormField[]
+  onOpenChange: (open: boolean) => void
+  onSave: (conditions: FieldCondition[]) => void
+}
+
+const needsValue = (test: ConditionTest) => test === 'equals' || test === 'notEquals'
+
+/**
+ * Edits the conditions that show, hide, enable, disable or require one
+ * field depending on the value of another.
+ */
+export function FieldConditionsDialog({ field, fields, onOpenChange, onSave }: FieldConditionsDialogProps) {
+  const [conditions, setConditions] = useState<FieldCondition[]>([])
+  const [effect, setEffect] = useState<ConditionEffect>('show')
+  const [fieldName, setFieldName] = useState('')
+  const [test, setTest] = useState<ConditionTest>('equals')
+  const [value, setValue] = useState('')
+
+  useEffect(() => {
+    setConditions(field?.conditions ?? [])
+  }, [field])
+
+  const controllers = fields.filter(candidate => candidate.id !== field?.id && candidate.type !== 'signature')
+  const controller = controllers.find(candidate => candidate.name === fieldName)
+  // Checkboxes are only ever ticked or not, so they skip the value tests
+  const tests = controller?.type === 'checkbox'
+    ? [{ id: 'filled' as const, name: 'is ticked' }, { id: 'empty' as const, name: 'is not ticked' }]
+    : conditionTests
+
+  const handleControllerChange = (name: string) => {
+    setFieldName(name)
+    setValue('')
+    if (controllers.find(candidate => candidate.name === name)?.type === 'checkbox') setTest('filled')
+  }
+
+  const draftCondition: FieldCondition | null = fieldName && (!needsValue(test) || value.trim())
+    ? { effect, fieldName, test, ...(needsValue(test) && { value: value.trim() }) }
+    : null
+
+  return (
+    <Dialog open={field !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Conditions: {field?.label}</DialogTitle>
+          <DialogDescription>Hidden fields are skipped in the Form Fields panel and do not count towards completion.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {conditions.length === 0 ? (
+            <p className="text-sm text-gray-500">No conditions yet. The field is always shown.</p>
+          ) : (
+            <ul className="space-y-1">
+              {conditions.map((condition, index) => (
+                <li key={index} className="flex items-center justify-between rounded-md border border-gray-200 px-3 py-1.5 text-sm">
+                  <span className="truncate">{describeCondition(condition, fields)}</span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setConditions(prev => prev.filter((_, conditionIndex) => conditionIndex !== index))}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-3 rounded-lg border border-gray-200 p-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={effect} onValueChange={(next) => setEffect(next as ConditionEffect)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {conditionEffects.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>{candidate.name} this field when</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={fieldName} onValueChange={handleControllerChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {controllers.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.name}>{candidate.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={test} onValueChange={(next) => setTest(next as ConditionTest)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tests.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {needsValue(test) && (controller?.options?.length ? (
+                <Select value={value} onValueChange={setValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a value" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {controller.options.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input value={value} onChange={(e) => setValue(e.target.value)} placeholder="Value, e.g. Yes" />
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!draftCondition}
+              onClick={() => {
+                if (!draftCondition) return
+                setConditions(prev => [...prev, draftCondition])
+                setValue('')
+              }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Condition
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(conditions)} className="bg-blue-600 hover:bg-blue-700">
+            Save Conditions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,221 @@
+import { Fragment, useState } from 'react'
+import type { CSSProperties, MouseEvent } from 'react'
+import { CalendarDays } from 'lucide-react'
+import { Calendar } from '@/components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { cn } from '@/lib/utils'
+import { formatDate, formatHint, parseDateText } from '@/lib/field-format'
+import { getDatePattern, getFieldFormat } from '@/lib/input-types'
+import { fromViewportPoint, toViewportRect } from '@/lib/pdf-geometry'
+import type { FieldWidget, FormField, PageInfo } from '@/types/form'
+
+interface FieldOverlayProps {
+  fields: FormField[]
+  page: PageInfo
+  pageIndex: number
+  scale: number
+  focusedFieldId: string | null
+  onFieldChange: (fieldId: string, value: string | boolean) => void
+  // Text goes through the same keystroke filtering and formatting as the side panel
+  onTextChange: (field: FormField, text: string) => void
+  onTextBlur: (field: FormField) => void
+  onFieldFocus: (field: FormField) => void
+  onSignatureRequest: (field: FormField) => void
+  // When set, clicks on the page report their position in PDF user space
+  onPagePointClick?: (point: { x: number; y: number }) => void
+}
+
+const controlClassName = 'pointer-events-auto absolute box-border border border-blue-300 bg-blue-50/90 text-gray-900 outline-none focus:border-blue-600 focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:bg-gray-100/90'
+
+/**
+ * HTML inputs laid over each widget rectangle of the rendered page, so
+ * fields can be filled in place. Positions follow the page's crop box,
+ * rotation and the current render scale. Takes the fields after
+ * conditions, so hidden fields are not drawn and disabled ones are
+ * read-only.
+ */
+export function FieldOverlay({ fields, page, pageIndex, scale, focusedFieldId, onFieldChange, onTextChange, onTextBlur, onFieldFocus, onSignatureRequest, onPagePointClick }: FieldOverlayProps) {
+  // Key of the widget whose calendar is open
+  const [datePickerKey, setDatePickerKey] = useState<string | null>(null)
+
+  const renderWidget = (field: FormField, widget: FieldWidget, index: number) => {
+    const rect = toViewportRect(widget.rect, page, scale)
+    const style: CSSProperties = {
+      ...rect,
+      fontSize: Math.max(8, Math.min(rect.height * 0.65, 14 * scale)),
+    }
+    const className = cn(controlClassName, field.id === focusedFieldId && 'border-2 border-blue-600')
+    const key = `${field.id}-${index}`
+    const commonProps = {
+      title: field.label,
+      // Calculated fields are overwritten on every change, so they are not typed into
+      disabled: field.readOnly || field.calculation !== undefined,
+      onFocus: () => onFieldFocus(field),
+    }
+
+    switch (field.type) {
+      case 'text': {
+        const format = getFieldFormat(field)
+        const input = (
+          <input
+            key={key}
+            {...commonProps}
+            type="text"
+            value={field.value as string}
+            maxLength={field.maxLength}
+            placeholder={format ? formatHint(format) : undefined}
+            onChange={(e) => onTextChange(field, e.target.value)}
+            onBlur={() => onTextBlur(field)}
+            className={cn(className, 'px-1')}
+            style={style}
+          />
+        )
+        const datePattern = getDatePattern(field)
+        if (!datePattern || commonProps.disabled) return input
+
+        // Date fields get a calendar button just right of the widget
+        const selected = field.value ? parseDateText(field.value as string, datePattern) : undefined
+        const buttonSize = Math.max(16, Math.min(rect.height, 24))
+        return (
+          <Fragment key={key}>
+            {input}
+            <Popover open={datePickerKey === key} onOpenChange={(open) => setDatePickerKey(open ? key : null)}>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  title="Pick a date"
+                  className="pointer-events-auto absolute flex items-center justify-center rounded-sm border border-blue-300 bg-white text-blue-700 hover:bg-blue-50"
+                  style={{ left: rect.left + rect.width + 2, top: rect.top + (rect.height - buttonSize) / 2, width: buttonSize, height: buttonSize }}
+                >
+                  <CalendarDays className="h-3 w-3" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  selected={selected}
+                  defaultMonth={selected}
+                  captionLayout="dropdown"
+                  onSelect={(date) => {
+                    if (!date) return
+                    onTextChange(field, formatDate(date, datePattern))
+                    setDatePickerKey(null)
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+          </Fragment>
+        )
+      }
+
+      case 'textarea':
+        return (
+          <textarea
+            key={key}
+            {...commonProps}
+            value={field.value as string}
+            maxLength={field.maxLength}
+            onChange={(e) => onTextChange(field, e.target.value)}
+            onBlur={() => onTextBlur(field)}
+            className={cn(className, 'resize-none px-1 leading-tight')}
+            style={{ ...style, fontSize: Math.max(8, Math.min(12 * scale, style.fontSize as number)) }}
+          />
+        )
+
+      case 'select':
+        return (
+          <select
+            key={key}
+            {...commonProps}
+            value={field.value as string}
+            onChange={(e) => onFieldChange(field.id, e.target.value)}
+            className={className}
+            style={style}
+          >
+            <option value="" />
+            {field.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        )
+
+      case 'checkbox':
+        return (
+          <input
+            key={key}
+            {...commonProps}
+            type="checkbox"
+            checked={field.value as boolean}
+            onChange={(e) => onFieldChange(field.id, e.target.checked)}
+            className={cn(className, 'm-0 cursor-pointer accent-blue-600')}
+            style={style}
+          />
+        )
+
+      case 'radio':
+        return (
+          <input
+            key={key}
+            {...commonProps}
+            type="radio"
+            name={field.id}
+            checked={widget.option !== undefined && field.value === widget.option}
+            onChange={() => widget.option !== undefined && onFieldChange(field.id, widget.option)}
+            className={cn(className, 'm-0 cursor-pointer accent-blue-600')}
+            style={style}
+          />
+        )
+
+      case 'signature':
+        return (
+          <button
+            key={key}
+            {...commonProps}
+            type="button"
+            onClick={() => onSignatureRequest(field)}
+            className={cn(className, 'flex items-center justify-center overflow-hidden p-0.5 text-blue-700')}
+            style={style}
+          >
+            {field.value ? (
+              <img src={field.value as string} alt={field.label} className="max-h-full max-w-full object-contain" />
+            ) : (
+              'Sign here'
+            )}
+          </button>
+        )
+
+      default:
+        // Fields without an in-place control are only outlined while focused
+        return field.id === focusedFieldId ? (
+          <div
+            key={key}
+            className="absolute rounded-sm border-2 border-blue-500 bg-blue-500/20"
+            style={rect}
+          />
+        ) : null
+    }
+  }
+
+  const handlePageClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (!onPagePointClick || e.target !== e.currentTarget) return
+
+    const bounds = e.currentTarget.getBoundingClientRect()
+    onPagePointClick(fromViewportPoint(e.clientX - bounds.left, e.clientY - bounds.top, page, scale))
+  }
+
+  return (
+    <div
+      className={cn('absolute inset-0 z-10', onPagePointClick ? 'cursor-crosshair' : 'pointer-events-none')}
+      data-edit-history
+      onClick={handlePageClick}
+    >
+      {fields.flatMap(field =>
+        (field.widgets ?? [])
+          .filter(widget => widget.pageIndex === pageIndex)
+          .map((widget, index) => renderWidget(field, widget, index))
+      )}
+    </div>
+  )
+}
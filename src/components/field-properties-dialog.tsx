@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import type { FieldAlignment, FormField } from '@/types/form'
+
+interface FieldPropertiesDialogProps {
+  field: FormField | null
+  fields: FormField[]
+  onOpenChange: (open: boolean) => void
+  onSave: (field: FormField) => void
+  onDelete: (fieldId: string) => void
+}
+
+const alignmentNames: Record<FieldAlignment, string> = { left: 'Left', center: 'Center', right: 'Right' }
+
+// "a.b.c" keeps "a.b." however the field is renamed
+const parentPrefix = (name: string) => name.slice(0, name.lastIndexOf('.') + 1)
+
+/**
+ * Edits a field's name, label, flags and appearance, along with the
+ * choices of dropdowns and the export values of checkboxes and radio
+ * buttons. Works for designed fields and for fields already in the PDF.
+ */
+export function FieldPropertiesDialog({ field, fields, onOpenChange, onSave, onDelete }: FieldPropertiesDialogProps) {
+  const [name, setName] = useState('')
+  const [label, setLabel] = useState('')
+  const [required, setRequired] = useState(false)
+  const [readOnly, setReadOnly] = useState(false)
+  const [multiline, setMultiline] = useState(false)
+  const [maxLength, setMaxLength] = useState('')
+  const [fontSize, setFontSize] = useState('')
+  const [alignment, setAlignment] = useState<FieldAlignment>('left')
+  const [options, setOptions] = useState('')
+  const [exportValues, setExportValues] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!field) return
+    setName(field.name)
+    setLabel(field.label)
+    setRequired(field.required ?? false)
+    setReadOnly(field.readOnly ?? false)
+    setMultiline(field.type === 'textarea')
+    setMaxLength(field.maxLength ? String(field.maxLength) : '')
+    setFontSize(field.fontSize ? String(field.fontSize) : '')
+    setAlignment(field.alignment ?? 'left')
+    setOptions((field.options ?? []).join('\n'))
+    setExportValues((field.widgets ?? []).map(widget => widget.option ?? ''))
+  }, [field])
+
+  const isText = field?.type === 'text' || field?.type === 'textarea'
+  const isButton = field?.type === 'checkbox' || field?.type === 'radio'
+  const hasFontSize = isText || field?.type === 'select'
+  const prefix = field ? parentPrefix(field.pdfName ?? field.name) : ''
+  const trimmedName = name.trim()
+  const optionList = options.split('\n').map(option => option.trim()).filter(Boolean)
+  const exportValueList = exportValues.map(option => option.trim())
+
+  // PDF field names must be unique; periods separate the parts of nested names
+  const error = !trimmedName.slice(prefix.length)
+    ? 'Enter a field name.'
+    : !trimmedName.startsWith(prefix) || trimmedName.slice(prefix.length).includes('.')
+      ? prefix ? `The name must start with "${prefix}" and have no other periods.` : 'Field names cannot contain periods.'
+      : fields.some(candidate => candidate.id !== field?.id && candidate.name === trimmedName)
+        ? 'Another field already has this name.'
+        : field?.type === 'select' && optionList.length === 0
+          ? 'Add at least one option.'
+          : isButton && exportValueList.some(option => !option || option === 'Off')
+            ? 'Export values cannot be empty or "Off".'
+            : maxLength && !(Number(maxLength) > 0)
+              ? 'Maximum length must be a positive number.'
+              : fontSize && !(Number(fontSize) > 0)
+                ? 'Font size must be a positive number.'
+                : null
+
+  const handleSave = () => {
+    if (!field || error) return
+
+    const updated: FormField = { ...field, name: trimmedName, label: label.trim() || trimmedName, required, readOnly }
+    if (updated.label !== field.label) updated.labelSource = 'user'
+    if (isText) {
+      updated.type = multiline ? 'textarea' : 'text'
+      updated.maxLength = maxLength ? Number(maxLength) : undefined
+      updated.alignment = alignment
+      // Multiline fields have no typed input
+      if (multiline) updated.inputType = undefined
+    }
+    if (hasFontSize && fontSize) updated.fontSize = Number(fontSize)
+    if (field.type === 'checkbox') {
+      updated.widgets = (field.widgets ?? []).map((widget, index) => ({ ...widget, option: exportValueList[index] }))
+    }
+    if (field.type === 'select') {
+      updated.options = optionList
+      if (!optionList.includes(field.value as string)) updated.value = ''
+    }
+    if (field.type === 'radio') {
+      updated.widgets = (field.widgets ?? []).map((widget, index) => ({ ...widget, option: exportValueList[index] }))
+      updated.options = [...new Set(exportValueList)]
+      if (!exportValueList.includes(field.value as string)) updated.value = ''
+    }
+    onSave(updated)
+  }
+
+  return (
+    <Dialog open={field !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Field Properties</DialogTitle>
+          <DialogDescription>
+            The name identifies the field in the PDF and in exported form data. Changes are written into the PDF on download.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="field-properties-name">Name</Label>
+            <Input id="field-properties-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="field-properties-label">Label</Label>
+            <Input id="field-properties-label" value={label} onChange={(e) => setLabel(e.target.value)} placeholder={trimmedName} />
+          </div>
+
+          {isText && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="field-properties-max-length">Maximum length</Label>
+                <Input
+                  id="field-properties-max-length"
+                  type="number"
+                  min={1}
+                  value={maxLength}
+                  onChange={(e) => setMaxLength(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="flex items-center space-x-2 pt-7">
+                <Checkbox
+                  id="field-properties-multiline"
+                  checked={multiline}
+                  onCheckedChange={(checked) => setMultiline(checked === true)}
+                />
+                <Label htmlFor="field-properties-multiline" className="font-normal">Multiline</Label>
+              </div>
+            </div>
+          )}
+
+          {hasFontSize && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="field-properties-font-size">Font size</Label>
+                <Input
+                  id="field-properties-font-size"
+                  type="number"
+                  min={1}
+                  value={fontSize}
+                  onChange={(e) => setFontSize(e.target.value)}
+                  placeholder={field?.fontSize === 0 ? 'Auto' : 'Unchanged'}
+                />
+              </div>
+              {isText && (
+                <div className="space-y-2">
+                  <Label>Alignment</Label>
+                  <Select value={alignment} onValueChange={(value) => setAlignment(value as FieldAlignment)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(alignmentNames).map(([id, name]) => (
+                        <SelectItem key={id} value={id}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {field?.type === 'select' && (
+            <div className="space-y-2">
+              <Label htmlFor="field-properties-options">Options, one per line</Label>
+              <Textarea id="field-properties-options" value={options} onChange={(e) => setOptions(e.target.value)} className="min-h-[100px]" />
+            </div>
+          )}
+
+          {field?.type === 'checkbox' && (
+            <div className="space-y-2">
+              <Label>Export value when ticked</Label>
+              {exportValues.map((option, index) => (
+                <Input
+                  key={index}
+                  value={option}
+                  onChange={(e) => setExportValues(prev => prev.map((candidate, optionIndex) => optionIndex === index ? e.target.value : candidate))}
+                  placeholder="Yes"
+                />
+              ))}
+            </div>
+          )}
+
+          {field?.type === 'radio' && (
+            <div className="space-y-2">
+              <Label>Value of each radio button</Label>
+              {exportValues.map((option, index) => (
+                <Input
+                  key={index}
+                  value={option}
+                  onChange={(e) => setExportValues(prev => prev.map((candidate, optionIndex) => optionIndex === index ? e.target.value : candidate))}
+                  placeholder={`Button ${index + 1}`}
+                />
+              ))}
+              {field.designed && <p className="text-xs text-gray-500">Draw more buttons on the page while this group is selected.</p>}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-6">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="field-properties-required" checked={required} onCheckedChange={(checked) => setRequired(checked === true)} />
+              <Label htmlFor="field-properties-required" className="font-normal">Required</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="field-properties-read-only" checked={readOnly} onCheckedChange={(checked) => setReadOnly(checked === true)} />
+              <Label htmlFor="field-properties-read-only" className="font-normal">Read only</Label>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => field && onDelete(field.id)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete Field
+          </Button>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={error !== null} className="bg-blue-600 hover:bg-blue-700">
+              Save Field
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
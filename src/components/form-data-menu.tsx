@@ -0,0 +1,74 @@
+import { useRef } from 'react'
+import type { ChangeEvent } from 'react'
+import { ArrowDownUp, FileDown, FileUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+export type FormDataFormat = 'json' | 'xfdf' | 'fdf'
+
+interface FormDataMenuProps {
+  onExport: (format: FormDataFormat) => void
+  onImport: (file: File) => void
+}
+
+/**
+ * Menu for saving and loading field values as JSON, or exchanging them
+ * with other PDF tools as FDF or XFDF.
+ */
+export function FormDataMenu({ onExport, onImport }: FormDataMenuProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onImport(file)
+    // Reset the input value so the same file can be imported again
+    e.target.value = ''
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <ArrowDownUp className="h-4 w-4 mr-2" />
+            Data
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => onExport('json')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Save data (.json)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => inputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Load data...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Exchange with PDF tools</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => onExport('xfdf')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            XFDF (.xfdf)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExport('fdf')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            FDF (.fdf)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.xfdf,.fdf,.xml"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </>
+  )
+}
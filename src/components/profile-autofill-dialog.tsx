@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Plus, Sparkles } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ProfileEditor } from '@/components/profile-editor'
+import { useToast } from '@/hooks/use-toast'
+import { MIN_CONFIDENCE, matchProfileFields, overrideKeys, profileAttributes, profileValueFor } from '@/lib/profiles'
+import { deleteProfile, loadMatchOverrides, loadProfiles, saveMatchOverrides, saveProfile } from '@/lib/storage'
+import type { FormField, MatchOverride, Profile, ProfileAttribute } from '@/types/form'
+
+interface ProfileAutofillDialogProps {
+  open: boolean
+  fields: FormField[]
+  onOpenChange: (open: boolean) => void
+  onApply: (values: Record<string, string>) => void
+}
+
+const NO_ATTRIBUTE = '__none__'
+
+const confidenceLabel = (confidence: number) =>
+  confidence >= 0.9 ? 'High' : confidence >= MIN_CONFIDENCE ? 'Medium' : 'Low'
+
+/**
+ * Autofills the form from a saved profile. Each field is matched to a
+ * profile attribute with a confidence score; corrections made here are
+ * remembered for fields with the same label or name in any form.
+ */
+export function ProfileAutofillDialog({ open, fields, onOpenChange, onApply }: ProfileAutofillDialogProps) {
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [overrides, setOverrides] = useState<MatchOverride[]>([])
+  const [profileId, setProfileId] = useState<string | null>(null)
+  const [editingProfile, setEditingProfile] = useState<Profile | null>(null)
+  // Per-field choices made in this dialog, on top of the matcher's suggestions
+  const [chosenAttributes, setChosenAttributes] = useState<Record<string, ProfileAttribute | null>>({})
+  const [included, setIncluded] = useState<Record<string, boolean>>({})
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) {
+      setEditingProfile(null)
+      setChosenAttributes({})
+      setIncluded({})
+      return
+    }
+
+    Promise.all([loadProfiles(), loadMatchOverrides()])
+      .then(([storedProfiles, storedOverrides]) => {
+        setProfiles(storedProfiles)
+        setOverrides(storedOverrides)
+        setProfileId(prev => storedProfiles.some(profile => profile.id === prev) ? prev : storedProfiles[0]?.id ?? null)
+        if (storedProfiles.length === 0) setEditingProfile({ id: `profile_${Date.now()}`, name: '', values: {} })
+      })
+      .catch(error => console.error('Error loading profiles:', error))
+  }, [open])
+
+  const profile = profiles.find(candidate => candidate.id === profileId)
+  const matches = useMemo(() => matchProfileFields(fields, overrides), [fields, overrides])
+
+  const rows = matches.map(match => {
+    const field = fields.find(candidate => candidate.id === match.fieldId)!
+    const attribute = match.fieldId in chosenAttributes ? chosenAttributes[match.fieldId] : match.attribute
+    const value = profile ? profileValueFor(field, profile, attribute) : undefined
+    const isConfident = match.fieldId in chosenAttributes || match.remembered || match.confidence >= MIN_CONFIDENCE
+    return {
+      field,
+      match,
+      attribute,
+      value,
+      isIncluded: value !== undefined && (included[match.fieldId] ?? isConfident),
+    }
+  })
+  const selectedRows = rows.filter(row => row.isIncluded)
+
+  const handleSaveProfile = async (savedProfile: Profile) => {
+    try {
+      await saveProfile(savedProfile)
+      setProfiles(prev => [...prev.filter(candidate => candidate.id !== savedProfile.id), savedProfile]
+        .sort((a, b) => a.name.localeCompare(b.name)))
+      setProfileId(savedProfile.id)
+      setEditingProfile(null)
+    } catch (error) {
+      console.error('Error saving profile:', error)
+      toast({ title: "Error", description: "Could not save the profile.", variant: "destructive" })
+    }
+  }
+
+  const handleDeleteProfile = async (deletedId: string) => {
+    try {
+      await deleteProfile(deletedId)
+      const remaining = profiles.filter(candidate => candidate.id !== deletedId)
+      setProfiles(remaining)
+      setProfileId(remaining[0]?.id ?? null)
+      setEditingProfile(null)
+    } catch (error) {
+      console.error('Error deleting profile:', error)
+      toast({ title: "Error", description: "Could not delete the profile.", variant: "destructive" })
+    }
+  }
+
+  const handleApply = async () => {
+    // Remember corrections so the same labels match correctly next time
+    const corrections = rows
+      .filter(row => row.match.fieldId in chosenAttributes && row.attribute !== row.match.attribute)
+      .flatMap(row => overrideKeys(row.field).map(key => ({ key, attribute: row.attribute })))
+    if (corrections.length > 0) {
+      try {
+        await saveMatchOverrides(corrections)
+      } catch (error) {
+        console.warn('Could not remember autofill corrections:', error)
+      }
+    }
+
+    onApply(Object.fromEntries(selectedRows.map(row => [row.field.id, row.value!])))
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Autofill from Profile</DialogTitle>
+          <DialogDescription>
+            Review how fields were matched to your profile, then fill them in one click.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingProfile ? (
+          <ProfileEditor
+            key={editingProfile.id}
+            profile={editingProfile}
+            onSave={handleSaveProfile}
+            onDelete={handleDeleteProfile}
+            onCancel={() => setEditingProfile(null)}
+          />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Select value={profileId ?? undefined} onValueChange={setProfileId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose a profile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {profile && (
+                <Button variant="outline" size="sm" onClick={() => setEditingProfile(profile)}>
+                  Edit
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditingProfile({ id: `profile_${Date.now()}`, name: '', values: {} })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Profile
+              </Button>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-500">This form has no text or choice fields to autofill.</p>
+            ) : (
+              <div className="space-y-2">
+                {rows.map(({ field, match, attribute, value, isIncluded }) => (
+                  <div key={field.id} className="flex items-center space-x-3 rounded-md border border-gray-200 p-2">
+                    <Checkbox
+                      checked={isIncluded}
+                      disabled={value === undefined}
+                      onCheckedChange={(checked) => setIncluded(prev => ({ ...prev, [field.id]: checked === true }))}
+                      aria-label={`Fill ${field.label}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{field.label}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {value ?? (attribute ? 'No value in this profile' : 'Not matched')}
+                      </p>
+                    </div>
+                    {match.fieldId in chosenAttributes ? null : match.remembered ? (
+                      <Badge variant="secondary">Remembered</Badge>
+                    ) : match.attribute && (
+                      <Badge variant="outline" title={`Match confidence ${Math.round(match.confidence * 100)}%`}>
+                        {confidenceLabel(match.confidence)}
+                      </Badge>
+                    )}
+                    <Select
+                      value={attribute ?? NO_ATTRIBUTE}
+                      onValueChange={(next) => setChosenAttributes(prev => ({
+                        ...prev,
+                        [field.id]: next === NO_ATTRIBUTE ? null : next as ProfileAttribute,
+                      }))}
+                    >
+                      <SelectTrigger className="w-44 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ATTRIBUTE}>Don't fill</SelectItem>
+                        {profileAttributes.map((candidate) => (
+                          <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {!editingProfile && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApply}
+              disabled={selectedRows.length === 0}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Fill {selectedRows.length} Field(s)
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
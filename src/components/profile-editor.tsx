@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { profileAttributes } from '@/lib/profiles'
+import type { Profile } from '@/types/form'
+
+interface ProfileEditorProps {
+  profile: Profile
+  onSave: (profile: Profile) => void
+  onDelete: (profileId: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Form for a profile's name and the canonical attributes it autofills.
+ */
+export function ProfileEditor({ profile, onSave, onDelete, onCancel }: ProfileEditorProps) {
+  const [draft, setDraft] = useState(profile)
+
+  const setValue = (attribute: string, value: string) => {
+    setDraft(prev => ({ ...prev, values: { ...prev.values, [attribute]: value } }))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="profile-name">Profile name</Label>
+        <Input
+          id="profile-name"
+          value={draft.name}
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="e.g. Personal or Acme Ltd"
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {profileAttributes.map((attribute) => (
+          <div key={attribute.id} className="space-y-1">
+            <Label htmlFor={`profile-${attribute.id}`} className="text-xs text-gray-600">
+              {attribute.name}
+            </Label>
+            <Input
+              id={`profile-${attribute.id}`}
+              value={draft.values[attribute.id] ?? ''}
+              onChange={(e) => setValue(attribute.id, e.target.value)}
+              className="h-8"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between">
+        <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => onDelete(profile.id)}>
+          Delete Profile
+        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+            disabled={draft.name.trim() === ''}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            Save Profile
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ChangeEvent, PointerEvent } from 'react'
+import '@fontsource/dancing-script/400.css'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+interface SignatureDialogProps {
+  open: boolean
+  title: string
+  onOpenChange: (open: boolean) => void
+  onSave: (signature: string) => void
+}
+
+const CANVAS_WIDTH = 480
+const CANVAS_HEIGHT = 160
+const SCRIPT_FONT = '"Dancing Script", cursive'
+
+// Scales an image down to fit the signature canvas and re-encodes it as PNG
+const imageToPng = (src: string) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const scale = Math.min(1, (CANVAS_WIDTH * 2) / image.width, (CANVAS_HEIGHT * 2) / image.height)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(image.width * scale)
+      canvas.height = Math.round(image.height * scale)
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL('image/png'))
+    }
+    image.onerror = () => reject(new Error('Could not read the signature image'))
+    image.src = src
+  })
+
+const renderTypedSignature = async (text: string) => {
+  await document.fonts.load(`64px ${SCRIPT_FONT}`)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = CANVAS_WIDTH * 2
+  canvas.height = CANVAS_HEIGHT * 2
+  const context = canvas.getContext('2d')!
+  let fontSize = 128
+  context.font = `${fontSize}px ${SCRIPT_FONT}`
+  while (fontSize > 24 && context.measureText(text).width > canvas.width - 40) {
+    fontSize -= 8
+    context.font = `${fontSize}px ${SCRIPT_FONT}`
+  }
+  context.fillStyle = '#111827'
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+  context.fillText(text, canvas.width / 2, canvas.height / 2)
+  return canvas.toDataURL('image/png')
+}
+
+/**
+ * Captures a signature as a PNG data URL, either drawn with the pointer,
+ * typed in a script font, or uploaded as an image.
+ */
+export function SignatureDialog({ open, title, onOpenChange, onSave }: SignatureDialogProps) {
+  const [mode, setMode] = useState('draw')
+  const [typedName, setTypedName] = useState('')
+  const [uploadedImage, setUploadedImage] = useState<string | null>(null)
+  const [hasDrawing, setHasDrawing] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const isDrawingRef = useRef(false)
+
+  useEffect(() => {
+    if (!open) {
+      setTypedName('')
+      setUploadedImage(null)
+      setHasDrawing(false)
+    }
+  }, [open])
+
+  const getPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget
+    const bounds = canvas.getBoundingClientRect()
+    return {
+      x: ((e.clientX - bounds.left) / bounds.width) * canvas.width,
+      y: ((e.clientY - bounds.top) / bounds.height) * canvas.height,
+    }
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d')
+    if (!context) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    isDrawingRef.current = true
+    const { x, y } = getPoint(e)
+    context.lineWidth = 4
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.strokeStyle = '#111827'
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d')
+    if (!isDrawingRef.current || !context) return
+
+    const { x, y } = getPoint(e)
+    context.lineTo(x, y)
+    context.stroke()
+    setHasDrawing(true)
+  }
+
+  const handlePointerUp = () => {
+    isDrawingRef.current = false
+  }
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setHasDrawing(false)
+  }
+
+  const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = async () => {
+      try {
+        setUploadedImage(await imageToPng(reader.result as string))
+      } catch (error) {
+        console.warn('Could not load signature image:', error)
+      }
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const handleSave = async () => {
+    if (mode === 'draw' && canvasRef.current) {
+      onSave(canvasRef.current.toDataURL('image/png'))
+    } else if (mode === 'type') {
+      onSave(await renderTypedSignature(typedName.trim()))
+    } else if (mode === 'upload' && uploadedImage) {
+      onSave(uploadedImage)
+    }
+    onOpenChange(false)
+  }
+
+  const canSave =
+    (mode === 'draw' && hasDrawing) ||
+    (mode === 'type' && typedName.trim() !== '') ||
+    (mode === 'upload' && uploadedImage !== null)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Draw, type, or upload the signature to place in this field.</DialogDescription>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={setMode}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="draw">Draw</TabsTrigger>
+            <TabsTrigger value="type">Type</TabsTrigger>
+            <TabsTrigger value="upload">Upload</TabsTrigger>
+          </TabsList>
+          <TabsContent value="draw" forceMount className="data-[state=inactive]:hidden space-y-2">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH * 2}
+              height={CANVAS_HEIGHT * 2}
+              className="w-full aspect-[3/1] rounded-md border border-dashed border-gray-300 bg-white touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+            />
+            <Button variant="outline" size="sm" onClick={clearDrawing} disabled={!hasDrawing}>
+              Clear
+            </Button>
+          </TabsContent>
+          <TabsContent value="type" className="space-y-2">
+            <Input
+              value={typedName}
+              onChange={(e) => setTypedName(e.target.value)}
+              placeholder="Type your full name"
+            />
+            <div
+              className="flex w-full aspect-[3/1] items-center justify-center overflow-hidden rounded-md border border-gray-200 bg-white text-5xl text-gray-900"
+              style={{ fontFamily: SCRIPT_FONT }}
+            >
+              {typedName}
+            </div>
+          </TabsContent>
+          <TabsContent value="upload" className="space-y-2">
+            <Input type="file" accept="image/png,image/jpeg" onChange={handleImageUpload} />
+            {uploadedImage && (
+              <div className="flex w-full aspect-[3/1] items-center justify-center rounded-md border border-gray-200 bg-white p-2">
+                <img src={uploadedImage} alt="Uploaded signature" className="max-h-full max-w-full object-contain" />
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave} className="bg-blue-600 hover:bg-blue-700">
+            Apply Signature
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
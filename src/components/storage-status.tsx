@@ -0,0 +1,71 @@
+import { HardDrive, Trash2 } from 'lucide-react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import type { StorageEstimate } from '@/lib/storage'
+
+interface StorageStatusProps {
+  estimate: StorageEstimate | null
+  onClear: () => void
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  return `${Math.ceil(bytes / 1024)} KB`
+}
+
+/**
+ * Shows how much of the browser's storage quota the saved files use, with
+ * a confirmed action to delete everything stored locally.
+ */
+export function StorageStatus({ estimate, onClear }: StorageStatusProps) {
+  return (
+    <div className="space-y-2">
+      {estimate && estimate.quota > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span className="flex items-center">
+              <HardDrive className="h-3 w-3 mr-1" />
+              Saved in this browser
+            </span>
+            <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}</span>
+          </div>
+          <Progress value={(estimate.usage / estimate.quota) * 100} className="h-1" />
+        </div>
+      )}
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="w-full text-red-600 hover:text-red-700">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear all local data
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear all local data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes every uploaded PDF, all entered values, and your saved profiles and templates from this browser. It cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onClear} className="bg-red-600 hover:bg-red-700">
+              Clear Data
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { sortByPosition } from '@/lib/form-designer'
+import type { FormField } from '@/types/form'
+
+interface TabOrderDialogProps {
+  open: boolean
+  fields: FormField[]
+  onOpenChange: (open: boolean) => void
+  onSave: (fieldIds: string[]) => void
+}
+
+/**
+ * Reorders the fields a keyboard user tabs through. The Form Fields panel
+ * follows the same order.
+ */
+export function TabOrderDialog({ open, fields, onOpenChange, onSave }: TabOrderDialogProps) {
+  const [ordered, setOrdered] = useState<FormField[]>([])
+
+  useEffect(() => {
+    if (open) setOrdered(fields)
+  }, [open, fields])
+
+  const move = (index: number, offset: number) => {
+    setOrdered(prev => {
+      const next = [...prev]
+      const [field] = next.splice(index, 1)
+      next.splice(index + offset, 0, field)
+      return next
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tab Order</DialogTitle>
+          <DialogDescription>Written into the PDF on download, replacing the order the form came with.</DialogDescription>
+        </DialogHeader>
+
+        <ol className="max-h-96 space-y-1 overflow-y-auto">
+          {ordered.map((field, index) => (
+            <li key={field.id} className="flex items-center space-x-2 rounded-md border border-gray-200 px-3 py-1 text-sm">
+              <span className="w-6 text-right text-xs text-gray-400">{index + 1}</span>
+              <span className="flex-1 truncate" title={field.name}>{field.label}</span>
+              {field.widgets?.[0] && (
+                <span className="text-xs text-gray-400">Page {field.widgets[0].pageIndex + 1}</span>
+              )}
+              <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0} onClick={() => move(index, -1)} title="Move up">
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === ordered.length - 1} onClick={() => move(index, 1)} title="Move down">
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="outline" onClick={() => setOrdered(sortByPosition(ordered))} title="Top to bottom, then left to right">
+            Sort by Position
+          </Button>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSave(ordered.map(field => field.id))} className="bg-blue-600 hover:bg-blue-700">
+              Save Order
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { FormTemplate, TemplateField } from '@/types/form'
+
+interface TemplateEditorProps {
+  template: FormTemplate
+  onSave: (template: FormTemplate) => void
+  onCancel: () => void
+}
+
+/**
+ * Edits the labels, required flags, default values and order a template
+ * applies to its form.
+ */
+export function TemplateEditor({ template, onSave, onCancel }: TemplateEditorProps) {
+  const [draft, setDraft] = useState(template)
+
+  const updateField = (index: number, update: Partial<TemplateField>) => {
+    setDraft(prev => ({
+      ...prev,
+      fields: prev.fields.map((field, fieldIndex) => fieldIndex === index ? { ...field, ...update } : field),
+    }))
+  }
+
+  const moveField = (index: number, offset: number) => {
+    setDraft(prev => {
+      const fields = [...prev.fields]
+      const [field] = fields.splice(index, 1)
+      fields.splice(index + offset, 0, field)
+      return { ...prev, fields }
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="template-name">Template name</Label>
+        <Input
+          id="template-name"
+          value={draft.name}
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+        />
+      </div>
+
+      <div className="space-y-2">
+        {draft.fields.map((field, index) => (
+          <div key={field.name} className="flex items-center space-x-2 rounded-md border border-gray-200 p-2">
+            <div className="flex flex-col">
+              <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => moveField(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => moveField(index, 1)} disabled={index === draft.fields.length - 1}>
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <Input
+                value={field.label ?? ''}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                placeholder={field.name}
+                className="h-8"
+              />
+              <p className="text-xs text-gray-400 truncate" title={field.name}>{field.name}</p>
+            </div>
+            {field.type === 'checkbox' ? (
+              <div className="flex items-center space-x-1 w-40">
+                <Checkbox
+                  id={`template-default-${index}`}
+                  checked={field.defaultValue === true}
+                  onCheckedChange={(checked) => updateField(index, { defaultValue: checked === true ? true : undefined })}
+                />
+                <Label htmlFor={`template-default-${index}`} className="text-xs font-normal">Checked by default</Label>
+              </div>
+            ) : field.type === 'signature' ? (
+              <div className="w-40" />
+            ) : (
+              <Input
+                value={typeof field.defaultValue === 'string' ? field.defaultValue : ''}
+                onChange={(e) => updateField(index, { defaultValue: e.target.value === '' ? undefined : e.target.value })}
+                placeholder="Default value"
+                className="h-8 w-40"
+              />
+            )}
+            <div className="flex items-center space-x-1">
+              <Checkbox
+                id={`template-required-${index}`}
+                checked={field.required ?? false}
+                onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+              />
+              <Label htmlFor={`template-required-${index}`} className="text-xs font-normal">Required</Label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onSave({ ...draft, name: draft.name.trim(), updatedAt: new Date() })}
+          disabled={draft.name.trim() === ''}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          Save Template
+        </Button>
+      </div>
+    </div>
+  )
+}
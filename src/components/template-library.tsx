@@ -0,0 +1,233 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { FileDown, FileUp, Pencil, Save, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { TemplateEditor } from '@/components/template-editor'
+import { useToast } from '@/hooks/use-toast'
+import { downloadBlob } from '@/lib/download'
+import { deleteTemplate, saveTemplates } from '@/lib/storage'
+import { createTemplate, exportTemplates, parseTemplates } from '@/lib/templates'
+import type { FormTemplate, UploadedFile } from '@/types/form'
+
+interface TemplateLibraryProps {
+  open: boolean
+  file: UploadedFile | null
+  templates: FormTemplate[]
+  onOpenChange: (open: boolean) => void
+  onTemplatesChange: (templates: FormTemplate[]) => void
+  onApply: (template: FormTemplate) => void
+}
+
+// One template per form: a saved or imported template replaces any with the same id or fingerprint
+const mergeTemplates = (templates: FormTemplate[], incoming: FormTemplate[]) =>
+  [
+    ...templates.filter(template =>
+      !incoming.some(other => other.id === template.id || other.fingerprint === template.fingerprint)
+    ),
+    ...incoming,
+  ].sort((a, b) => a.name.localeCompare(b.name))
+
+/**
+ * Library of saved form templates. Templates are recognized by the
+ * fingerprint of a form's fields and can be shared as a JSON export.
+ */
+export function TemplateLibrary({ open, file, templates, onOpenChange, onTemplatesChange, onApply }: TemplateLibraryProps) {
+  const [newTemplateName, setNewTemplateName] = useState('')
+  const [useValuesAsDefaults, setUseValuesAsDefaults] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<FormTemplate | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const store = async (incoming: FormTemplate[]) => {
+    const replaced = templates.filter(template =>
+      incoming.some(other => other.fingerprint === template.fingerprint && other.id !== template.id)
+    )
+    await Promise.all(replaced.map(template => deleteTemplate(template.id)))
+    await saveTemplates(incoming)
+    onTemplatesChange(mergeTemplates(templates, incoming))
+  }
+
+  const handleSaveCurrent = async () => {
+    if (!file?.fingerprint) return
+
+    const existing = templates.find(template => template.fingerprint === file.fingerprint)
+    const captured = createTemplate(newTemplateName.trim() || file.name, file.fingerprint, file.fields, useValuesAsDefaults)
+    const template = existing ? { ...captured, id: existing.id, createdAt: existing.createdAt } : captured
+    try {
+      await store([template])
+      setNewTemplateName('')
+      toast({
+        title: existing ? "Template updated" : "Template saved",
+        description: `${template.name} will be applied whenever this form is uploaded.`,
+      })
+    } catch (error) {
+      console.error('Error saving template:', error)
+      toast({ title: "Error", description: "Could not save the template.", variant: "destructive" })
+    }
+  }
+
+  const handleSaveEdited = async (template: FormTemplate) => {
+    try {
+      await store([template])
+      setEditingTemplate(null)
+    } catch (error) {
+      console.error('Error saving template:', error)
+      toast({ title: "Error", description: "Could not save the template.", variant: "destructive" })
+    }
+  }
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      await deleteTemplate(templateId)
+      onTemplatesChange(templates.filter(template => template.id !== templateId))
+    } catch (error) {
+      console.error('Error deleting template:', error)
+      toast({ title: "Error", description: "Could not delete the template.", variant: "destructive" })
+    }
+  }
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportTemplates(templates)], { type: 'application/json' }), 'form-templates.json')
+  }
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const importFile = e.target.files?.[0]
+    // Reset the input value so the same file can be imported again
+    e.target.value = ''
+    if (!importFile) return
+
+    try {
+      const imported = parseTemplates(await importFile.text())
+      await store(imported)
+      toast({
+        title: "Templates imported",
+        description: `Imported ${imported.length} template(s) from ${importFile.name}.`,
+      })
+    } catch (error) {
+      console.error('Error importing templates:', error)
+      toast({
+        title: "Import Error",
+        description: `Could not read ${importFile.name} as a template export.`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => {
+      if (!nextOpen) setEditingTemplate(null)
+      onOpenChange(nextOpen)
+    }}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Form Templates</DialogTitle>
+          <DialogDescription>
+            Templates remember labels, required fields, validation rules, conditions, default values and field order for a form, and are applied automatically when the same form is uploaded again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingTemplate ? (
+          <TemplateEditor
+            key={editingTemplate.id}
+            template={editingTemplate}
+            onSave={handleSaveEdited}
+            onCancel={() => setEditingTemplate(null)}
+          />
+        ) : (
+          <div className="space-y-4">
+            {file?.fingerprint && (
+              <div className="space-y-2 rounded-lg border border-gray-200 p-3">
+                <Label htmlFor="new-template-name">Save {file.name} as a template</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="new-template-name"
+                    value={newTemplateName}
+                    onChange={(e) => setNewTemplateName(e.target.value)}
+                    placeholder={file.name}
+                  />
+                  <Button onClick={handleSaveCurrent} className="bg-blue-600 hover:bg-blue-700">
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="template-use-values"
+                    checked={useValuesAsDefaults}
+                    onCheckedChange={(checked) => setUseValuesAsDefaults(checked === true)}
+                  />
+                  <Label htmlFor="template-use-values" className="text-sm font-normal text-gray-600">
+                    Use current values as defaults
+                  </Label>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900">Saved templates</h3>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleExport} disabled={templates.length === 0}>
+                  <FileDown className="h-4 w-4 mr-2" />
+                  Export All
+                </Button>
+                <input
+                  ref={inputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+              </div>
+            </div>
+            <Separator />
+
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">No templates saved yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map((template) => (
+                  <div key={template.id} className="flex items-center justify-between rounded-md border border-gray-200 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <p className="text-sm font-medium text-gray-900 truncate">{template.name}</p>
+                        {file?.fingerprint === template.fingerprint && (
+                          <Badge variant="secondary">Matches this form</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {template.fields.length} field(s), updated {template.updatedAt.toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {file && (
+                        <Button variant="outline" size="sm" onClick={() => onApply(template)}>
+                          Apply
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => setEditingTemplate(template)} title="Edit template">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(template.id)} title="Delete template">
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { comparisonOperators, describeRule } from '@/lib/validation'
+import type { ComparisonOperator, FormField, ValidationRule } from '@/types/form'
+
+interface ValidationRulesDialogProps {
+  field: FormField | null
+  fields: FormField[]
+  onOpenChange: (open: boolean) => void
+  onSave: (rules: ValidationRule[]) => void
+}
+
+type RuleKind = ValidationRule['kind']
+
+const ruleKinds: { id: RuleKind; name: string }[] = [
+  { id: 'email', name: 'Email address' },
+  { id: 'phone', name: 'Phone number' },
+  { id: 'pattern', name: 'Regular expression' },
+  { id: 'length', name: 'Text length' },
+  { id: 'range', name: 'Number range' },
+  { id: 'dateRange', name: 'Date range' },
+  { id: 'compare', name: 'Compare with another field' },
+]
+
+const toNumber = (text: string) => (text.trim() === '' ? undefined : Number(text))
+
+/**
+ * Edits the declarative validation rules of one field.
+ */
+export function ValidationRulesDialog({ field, fields, onOpenChange, onSave }: ValidationRulesDialogProps) {
+  const [rules, setRules] = useState<ValidationRule[]>([])
+  const [kind, setKind] = useState<RuleKind>('email')
+  const [min, setMin] = useState('')
+  const [max, setMax] = useState('')
+  const [pattern, setPattern] = useState('')
+  const [operator, setOperator] = useState<ComparisonOperator>('eq')
+  const [otherFieldName, setOtherFieldName] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    setRules(field?.validation ?? [])
+  }, [field])
+
+  const resetDraft = () => {
+    setMin('')
+    setMax('')
+    setPattern('')
+    setOtherFieldName('')
+    setMessage('')
+  }
+
+  const buildRule = (): ValidationRule | null => {
+    const custom = message.trim() ? { message: message.trim() } : {}
+    switch (kind) {
+      case 'email':
+      case 'phone':
+        return { kind, ...custom }
+      case 'pattern':
+        try {
+          new RegExp(pattern)
+        } catch {
+          return null
+        }
+        return pattern ? { kind, pattern, ...custom } : null
+      case 'length':
+      case 'range': {
+        const bounds = { min: toNumber(min), max: toNumber(max) }
+        if (Number.isNaN(bounds.min) || Number.isNaN(bounds.max)) return null
+        return bounds.min === undefined && bounds.max === undefined ? null : { kind, ...bounds, ...custom }
+      }
+      case 'dateRange':
+        return min || max ? { kind, min: min || undefined, max: max || undefined, ...custom } : null
+      case 'compare':
+        return otherFieldName ? { kind, operator, otherFieldName, ...custom } : null
+    }
+  }
+
+  const draftRule = buildRule()
+  const otherFields = fields.filter(candidate => candidate.id !== field?.id && candidate.type !== 'signature')
+
+  return (
+    <Dialog open={field !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Validation: {field?.label}</DialogTitle>
+          <DialogDescription>Values that break a rule are flagged in the form and before download.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500">No rules yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {rules.map((rule, index) => (
+                <li key={index} className="flex items-center justify-between rounded-md border border-gray-200 px-3 py-1.5 text-sm">
+                  <span className="truncate">
+                    {describeRule(rule)}
+                    {rule.message && <span className="text-gray-500"> — “{rule.message}”</span>}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setRules(prev => prev.filter((_, ruleIndex) => ruleIndex !== index))}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-3 rounded-lg border border-gray-200 p-3">
+            <Select value={kind} onValueChange={(value) => { setKind(value as RuleKind); resetDraft() }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ruleKinds.map((ruleKind) => (
+                  <SelectItem key={ruleKind.id} value={ruleKind.id}>{ruleKind.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {kind === 'pattern' && (
+              <Input value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder="e.g. ^[A-Z]{2}\d{6}$" />
+            )}
+            {(kind === 'length' || kind === 'range' || kind === 'dateRange') && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-600">Minimum</Label>
+                  <Input type={kind === 'dateRange' ? 'date' : 'number'} value={min} onChange={(e) => setMin(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-600">Maximum</Label>
+                  <Input type={kind === 'dateRange' ? 'date' : 'number'} value={max} onChange={(e) => setMax(e.target.value)} />
+                </div>
+              </div>
+            )}
+            {kind === 'compare' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={operator} onValueChange={(value) => setOperator(value as ComparisonOperator)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {comparisonOperators.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>Must be {candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={otherFieldName} onValueChange={setOtherFieldName}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherFields.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.name}>{candidate.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Input value={message} onChange={(e) => setMessage(e.target.value)} placeholder="Custom error message (optional)" />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!draftRule}
+              onClick={() => {
+                if (!draftRule) return
+                setRules(prev => [...prev, draftRule])
+                resetDraft()
+              }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(rules)} className="bg-blue-600 hover:bg-blue-700">
+            Save Rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
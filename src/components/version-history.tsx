@@ -0,0 +1,85 @@
+import { RotateCcw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { describeValue, diffSnapshots, isCurrentVersion } from '@/lib/version-history'
+import type { FieldSnapshot, UploadedFile } from '@/types/form'
+
+interface VersionHistoryProps {
+  open: boolean
+  file: UploadedFile
+  onOpenChange: (open: boolean) => void
+  onRestore: (snapshot: FieldSnapshot) => void
+}
+
+/**
+ * Drawer listing a file's autosaved snapshots, newest first, each with the
+ * values it changed compared to the snapshot before it.
+ */
+export function VersionHistory({ open, file, onOpenChange, onRestore }: VersionHistoryProps) {
+  const versions = file.versions ?? []
+  const fieldsById = new Map(file.fields.map(field => [field.id, field]))
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>
+            Values are saved automatically a few seconds after you stop editing {file.name}.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {versions.length === 0 && (
+            <p className="text-sm text-gray-500">No versions saved yet.</p>
+          )}
+          {versions.map((snapshot, index) => {
+            const changes = diffSnapshots(file.fields, versions[index - 1], snapshot)
+            const isCurrent = isCurrentVersion(file, snapshot)
+            return (
+              <div key={snapshot.id} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      {snapshot.createdAt.toLocaleString()}
+                    </span>
+                    {isCurrent && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRestore(snapshot)}
+                    disabled={isCurrent}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+                {index === 0 ? (
+                  <p className="text-xs text-gray-500">Initial values</p>
+                ) : changes.length === 0 ? (
+                  <p className="text-xs text-gray-500">Only fields that were later removed changed</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {changes.map((change) => {
+                      const field = fieldsById.get(change.fieldId)
+                      return (
+                        <li key={change.fieldId} className="text-xs text-gray-600 break-words">
+                          <span className="font-medium text-gray-800">{change.label}:</span>{' '}
+                          <span className="line-through text-red-600">{describeValue(field, change.before)}</span>
+                          {' → '}
+                          <span className="text-green-700">{describeValue(field, change.after)}</span>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                )}
+              </div>
+            )
+          }).reverse()}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import type { FormField } from '@/types/form'
+import { parseCalculateScript, renameCalculationFields, withCalculatedValues } from './calculations'
+
+const notation = (expression: string) => `/** BVCALC ${expression} EVCALC **/ event.value = 0`
+
+const textField = (name: string, value: string, calculation?: FormField['calculation']): FormField => ({
+  id: name,
+  name,
+  type: 'text',
+  label: name,
+  value,
+  ...(calculation && { calculation }),
+})
+
+describe('parseCalculateScript', () => {
+  it('reads AFSimple_Calculate calls and simplified field notation', () => {
+    expect(parseCalculateScript('AFSimple_Calculate("SUM", new Array("a", "b"))')).toEqual({ kind: 'aggregate', operation: 'SUM', fieldNames: ['a', 'b'] })
+    expect(parseCalculateScript(notation('Qty * Price'))).toEqual({ kind: 'expression', expression: 'Qty * Price' })
+  })
+
+  it('leaves fields with malformed notation uncalculated', () => {
+    expect(parseCalculateScript(notation('(Qty * Price'))).toBeUndefined()
+    expect(parseCalculateScript(notation('Qty * * Price'))).toBeUndefined()
+  })
+})
+
+describe('withCalculatedValues', () => {
+  it('computes expressions over the current values', () => {
+    const fields = withCalculatedValues([
+      textField('Qty', '3'),
+      textField('Price', '2.5'),
+      textField('Total', '', { kind: 'expression', expression: 'Qty * Price' }),
+    ])
+    expect(fields[2].value).toBe('7.5')
+  })
+})
+
+describe('renameCalculationFields', () => {
+  const rename = (name: string) => (name === 'Unit Price' ? 'Price' : name === 'Qty' ? 'Unit Count' : name)
+
+  it('renames fields inside expressions, escaping names as needed', () => {
+    expect(renameCalculationFields({ kind: 'expression', expression: '(Qty * Unit\\ Price) - 5' }, rename))
+      .toEqual({ kind: 'expression', expression: '(Unit\\ Count * Price) - 5' })
+  })
+
+  it('renames the fields of aggregates', () => {
+    expect(renameCalculationFields({ kind: 'aggregate', operation: 'SUM', fieldNames: ['Qty', 'Tax'] }, rename))
+      .toEqual({ kind: 'aggregate', operation: 'SUM', fieldNames: ['Unit Count', 'Tax'] })
+  })
+})
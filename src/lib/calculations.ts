@@ -0,0 +1,228 @@
+import type { CalculationOperation, FieldCalculation, FormField } from '@/types/form'
+import { formatStoredValue, parseScriptArguments, toStoredValue } from './field-format'
+import { getFieldFormat } from './input-types'
+import { parseNumber } from './validation'
+
+const operationNames: Record<CalculationOperation, string> = {
+  SUM: 'Sum',
+  PRD: 'Product',
+  AVG: 'Average',
+  MIN: 'Minimum',
+  MAX: 'Maximum',
+}
+
+// AFSimple_Calculate("SUM", new Array("a", "b")), also with ["a", "b"] or "a, b"
+const SIMPLE_CALCULATE = /\bAFSimple_Calculate\s*\(\s*["'](SUM|PRD|AVG|MIN|MAX)["']\s*,\s*(new\s+Array\s*\([^)]*\)|\[[^\]]*\]|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/
+
+// Acrobat keeps simplified field notation in a comment ahead of the JavaScript it generates
+const SIMPLIFIED_NOTATION = /\/\*\*\s*BVCALC\s+([\s\S]*?)\s+EVCALC\s*\*\*\//
+
+/**
+ * Reads a field's calculate script. Like the format scripts it is never
+ * run: only AFSimple_Calculate calls and simplified field notation are
+ * recognized, and custom calculations are left alone. Notation this
+ * module cannot evaluate leaves the field uncalculated.
+ */
+export const parseCalculateScript = (script: string | undefined): FieldCalculation | undefined => {
+  if (!script) return undefined
+
+  const notation = SIMPLIFIED_NOTATION.exec(script)
+  if (notation) {
+    const expression = notation[1].trim()
+    if (isValidExpression(expression)) return { kind: 'expression', expression }
+    console.warn(`Ignoring calculation that cannot be evaluated: ${expression}`)
+    return undefined
+  }
+
+  const call = SIMPLE_CALCULATE.exec(script)
+  if (!call) return undefined
+
+  const names = parseScriptArguments(call[2]).filter((name): name is string => typeof name === 'string')
+  // A single string lists the field names separated by commas
+  const fieldNames = (call[2].startsWith('"') || call[2].startsWith("'") ? names[0]?.split(',') ?? [] : names)
+    .map(name => name.trim())
+    .filter(Boolean)
+  return fieldNames.length > 0 ? { kind: 'aggregate', operation: call[1] as CalculationOperation, fieldNames } : undefined
+}
+
+// A name also covers the fields below it, so "Line" totals "Line.0", "Line.1", ...
+const findFields = (fields: FormField[], name: string) =>
+  fields.filter(field => field.name === name || field.name.startsWith(`${name}.`))
+
+// Like Acrobat's AFMakeNumber: formatted values are read as stored, anything else is 0
+const numericValue = (field: FormField) => {
+  if (typeof field.value !== 'string') return 0
+  const format = getFieldFormat(field)
+  return parseNumber(format ? toStoredValue(format, field.value) : field.value) ?? 0
+}
+
+type Token = { kind: 'number'; value: number } | { kind: 'name'; value: string } | { kind: 'operator'; value: string }
+
+// Names may contain any character; spaces and operators inside a name are escaped with a backslash
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = []
+  let index = 0
+  while (index < expression.length) {
+    const char = expression[index]
+    if (/\s/.test(char)) {
+      index++
+    } else if ('+-*/()'.includes(char)) {
+      tokens.push({ kind: 'operator', value: char })
+      index++
+    } else {
+      let word = ''
+      while (index < expression.length && !/[\s+\-*/()]/.test(expression[index])) {
+        if (expression[index] === '\\' && index + 1 < expression.length) index++
+        word += expression[index++]
+      }
+      const number = Number(word)
+      tokens.push(/^\d*\.?\d+$/.test(word) && !Number.isNaN(number) ? { kind: 'number', value: number } : { kind: 'name', value: word })
+    }
+  }
+  return tokens
+}
+
+// Recursive descent over + - * / and parentheses; throws on malformed input
+const evaluateExpression = (expression: string, valueOf: (name: string) => number) => {
+  const tokens = tokenize(expression)
+  let position = 0
+  const peek = () => tokens[position]
+  const isOperator = (...operators: string[]) => peek()?.kind === 'operator' && operators.includes(peek().value as string)
+
+  const factor = (): number => {
+    const token = tokens[position++]
+    if (!token) throw new Error('Unexpected end of expression')
+    if (token.kind === 'number') return token.value
+    if (token.kind === 'name') return valueOf(token.value)
+    if (token.value === '-') return -factor()
+    if (token.value === '+') return factor()
+    if (token.value !== '(') throw new Error(`Unexpected ${token.value}`)
+    const value = sum()
+    if (!isOperator(')')) throw new Error('Missing )')
+    position++
+    return value
+  }
+  const product = () => {
+    let value = factor()
+    while (isOperator('*', '/')) {
+      value = tokens[position++].value === '*' ? value * factor() : value / factor()
+    }
+    return value
+  }
+  const sum = () => {
+    let value = product()
+    while (isOperator('+', '-')) {
+      value = tokens[position++].value === '+' ? value + product() : value - product()
+    }
+    return value
+  }
+
+  const value = sum()
+  if (position < tokens.length) throw new Error('Unexpected input after expression')
+  return value
+}
+
+// Checked once when the script is read, so recalculating never hits a malformed expression
+const isValidExpression = (expression: string) => {
+  try {
+    evaluateExpression(expression, () => 0)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const calculate = (calculation: FieldCalculation, fields: FormField[]) => {
+  if (calculation.kind === 'expression') {
+    return evaluateExpression(calculation.expression, name =>
+      findFields(fields, name).reduce((total, field) => total + numericValue(field), 0)
+    )
+  }
+
+  const values = calculation.fieldNames.flatMap(name => findFields(fields, name)).map(numericValue)
+  if (values.length === 0) return 0
+  switch (calculation.operation) {
+    case 'SUM': return values.reduce((total, value) => total + value, 0)
+    case 'PRD': return values.reduce((total, value) => total * value, 1)
+    case 'AVG': return values.reduce((total, value) => total + value, 0) / values.length
+    case 'MIN': return Math.min(...values)
+    case 'MAX': return Math.max(...values)
+  }
+}
+
+/**
+ * Recomputes every calculated field in the PDF's calculation order, so a
+ * total can build on a subtotal computed before it. Fields missing from
+ * the order come last. Results that are not finite numbers, such as a
+ * division by an empty field, leave the field blank.
+ */
+export const withCalculatedValues = (fields: FormField[]): FormField[] => {
+  const calculated = fields
+    .map((field, index) => ({ field, order: field.calculationOrder ?? fields.length + index }))
+    .filter(({ field }) => field.calculation)
+    .sort((a, b) => a.order - b.order)
+  if (calculated.length === 0) return fields
+
+  const current = [...fields]
+  calculated.forEach(({ field }) => {
+    // Expressions are checked when read, but files stored before that may still hold a malformed one
+    let result: number
+    try {
+      result = calculate(field.calculation!, current)
+    } catch {
+      return
+    }
+
+    // toPrecision drops floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    const stored = Number.isFinite(result) ? String(Number(result.toPrecision(12))) : ''
+    const format = getFieldFormat(field)
+    const value = format && stored !== '' ? formatStoredValue(format, stored) : stored
+    const index = current.findIndex(candidate => candidate.id === field.id)
+    if (current[index].value !== value) current[index] = { ...current[index], value }
+  })
+  return current
+}
+
+// Backslashes let names in expressions hold spaces and operators: "Unit\ Price"
+const escapeName = (name: string) => name.replace(/[\s+\-*/()\\]/g, '\\$&')
+
+/**
+ * Points a calculation's field references elsewhere, for renamed fields.
+ * Names inside expressions are rewritten in place, so the rest of the
+ * expression stays as written.
+ */
+export const renameCalculationFields = (calculation: FieldCalculation, rename: (name: string) => string): FieldCalculation => {
+  if (calculation.kind === 'aggregate') return { ...calculation, fieldNames: calculation.fieldNames.map(rename) }
+
+  // Scans names the way tokenize does
+  const source = calculation.expression
+  let expression = ''
+  let index = 0
+  while (index < source.length) {
+    if (/[\s+\-*/()]/.test(source[index])) {
+      expression += source[index++]
+      continue
+    }
+    const start = index
+    let word = ''
+    while (index < source.length && !/[\s+\-*/()]/.test(source[index])) {
+      if (source[index] === '\\' && index + 1 < source.length) index++
+      word += source[index++]
+    }
+    const renamed = /^\d*\.?\d+$/.test(word) ? word : rename(word)
+    expression += renamed === word ? source.slice(start, index) : escapeName(renamed)
+  }
+  return { ...calculation, expression }
+}
+
+// The field names a calculation reads, as written
+export const calculationFieldNames = (calculation: FieldCalculation) =>
+  calculation.kind === 'aggregate'
+    ? calculation.fieldNames
+    : tokenize(calculation.expression).flatMap(token => (token.kind === 'name' ? [token.value] : []))
+
+// "Sum of Line 1, Line 2" or "= Qty * Price", for the Form Fields panel
+export const describeCalculation = (calculation: FieldCalculation) =>
+  calculation.kind === 'expression'
+    ? `= ${calculation.expression}`
+    : `${operationNames[calculation.operation]} of ${calculation.fieldNames.join(', ')}`
@@ -0,0 +1,97 @@
+import type { FormField } from '@/types/form'
+
+export interface Progress {
+  completed: number
+  total: number
+  percent: number // 100 when there is nothing to complete
+}
+
+export interface CompletionModel {
+  required: Progress
+  optional: Progress
+  overall: Progress
+  pages: Map<number, Progress> // Keyed by page index of the field's first widget
+  sections: { name: string; progress: Progress }[]
+  incompleteFieldIds: string[] // Required fields first, each group in form order
+}
+
+const GENERAL_SECTION = 'General'
+
+const toProgress = (fields: FormField[]): Progress => {
+  const completed = fields.filter(isFieldComplete).length
+  return {
+    completed,
+    total: fields.length,
+    percent: fields.length === 0 ? 100 : Math.round((completed / fields.length) * 100),
+  }
+}
+
+/**
+ * A required checkbox is an acknowledgement and must be ticked. An optional
+ * checkbox is left out of completion, since unticked is a valid answer, and
+ * so are calculated fields, which the user never fills in.
+ */
+export const countsTowardCompletion = (field: FormField) =>
+  !field.readOnly && !field.calculation && (field.type !== 'checkbox' || field.required === true)
+
+export const isFieldComplete = (field: FormField) =>
+  field.type === 'checkbox' ? field.value === true : String(field.value).trim() !== ''
+
+// "applicant.address.city" -> "applicant"; unqualified names share one section
+export const sectionName = (field: FormField) =>
+  field.name.includes('.') ? field.name.split('.')[0] : GENERAL_SECTION
+
+const groupBy = <K>(fields: FormField[], key: (field: FormField) => K) => {
+  const groups = new Map<K, FormField[]>()
+  fields.forEach(field => {
+    const groupKey = key(field)
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), field])
+  })
+  return groups
+}
+
+/**
+ * Summarizes how far a form is filled in: required and optional fields
+ * separately, per page and per section, plus the fields still to do.
+ */
+export const getCompletion = (fields: FormField[]): CompletionModel => {
+  const counted = fields.filter(countsTowardCompletion)
+  const required = counted.filter(field => field.required)
+  const optional = counted.filter(field => !field.required)
+
+  const pages = new Map<number, Progress>()
+  groupBy(counted.filter(field => field.widgets?.length), field => field.widgets![0].pageIndex)
+    .forEach((pageFields, pageIndex) => pages.set(pageIndex, toProgress(pageFields)))
+
+  const sections = Array.from(groupBy(counted, sectionName), ([name, sectionFields]) => ({
+    name,
+    progress: toProgress(sectionFields),
+  }))
+
+  return {
+    required: toProgress(required),
+    optional: toProgress(optional),
+    overall: toProgress(counted),
+    pages,
+    sections,
+    incompleteFieldIds: [...required, ...optional]
+      .filter(field => !isFieldComplete(field))
+      .map(field => field.id),
+  }
+}
+
+/**
+ * Picks the incomplete field to visit after the current one, wrapping
+ * around, so repeated use walks through every remaining field.
+ */
+export const nextIncompleteFieldId = (completion: CompletionModel, fields: FormField[], currentFieldId: string | null) => {
+  const { incompleteFieldIds } = completion
+  if (incompleteFieldIds.length === 0) return null
+
+  const position = (fieldId: string) => fields.findIndex(field => field.id === fieldId)
+  const currentPosition = currentFieldId ? position(currentFieldId) : -1
+  // Required fields come first; within them, continue after the current field in form order
+  const requiredIds = incompleteFieldIds.filter(fieldId => fields[position(fieldId)]?.required)
+  const candidates = requiredIds.length > 0 ? requiredIds : incompleteFieldIds
+  return candidates.find(fieldId => position(fieldId) > currentPosition) ?? candidates[0]
+}
@@ -0,0 +1,104 @@
+import type { ConditionEffect, ConditionTest, FieldCondition, FormField } from '@/types/form'
+
+export interface FieldState {
+  hidden: boolean
+  disabled: boolean
+  required: boolean
+}
+
+export const conditionEffects: { id: ConditionEffect; name: string }[] = [
+  { id: 'show', name: 'Show' },
+  { id: 'hide', name: 'Hide' },
+  { id: 'enable', name: 'Enable' },
+  { id: 'disable', name: 'Disable' },
+  { id: 'require', name: 'Require' },
+]
+
+export const conditionTests: { id: ConditionTest; name: string }[] = [
+  { id: 'equals', name: 'is' },
+  { id: 'notEquals', name: 'is not' },
+  { id: 'filled', name: 'is filled in' },
+  { id: 'empty', name: 'is empty' },
+]
+
+const isFilled = (value: FormField['value']) =>
+  typeof value === 'boolean' ? value : value.trim() !== ''
+
+const testHolds = (condition: FieldCondition, value: FormField['value']) => {
+  const matches = () => String(value).trim().toLowerCase() === (condition.value ?? '').trim().toLowerCase()
+  switch (condition.test) {
+    case 'equals': return matches()
+    case 'notEquals': return !matches()
+    case 'filled': return isFilled(value)
+    case 'empty': return !isFilled(value)
+  }
+}
+
+/**
+ * Works out which fields are hidden, disabled or required by their
+ * conditions. A field hidden by its own conditions counts as empty for the
+ * fields it controls, so "if 4a is Yes, complete 4b, and if 4b..." chains
+ * collapse together. 'show' and 'enable' hold while any of them matches.
+ */
+export const resolveFieldStates = (fields: FormField[]) => {
+  const byName = new Map(fields.map(field => [field.name, field]))
+  let states = new Map<string, FieldState>()
+
+  // Each pass settles at least one more link of a chain; cycles stop at the pass limit
+  for (let pass = 0; pass <= fields.length; pass++) {
+    const previous = states
+    const holds = (condition: FieldCondition) => {
+      const controller = byName.get(condition.fieldName)
+      if (!controller) return false
+      const value = previous.get(controller.id)?.hidden ? (controller.type === 'checkbox' ? false : '') : controller.value
+      return testHolds(condition, value)
+    }
+
+    states = new Map(fields.map(field => {
+      const conditions = field.conditions ?? []
+      const matching = (effect: ConditionEffect) => conditions.filter(condition => condition.effect === effect)
+      const anyHolds = (effect: ConditionEffect) => matching(effect).some(holds)
+      const gated = (effect: ConditionEffect) => matching(effect).length > 0 && !anyHolds(effect)
+
+      return [field.id, {
+        hidden: gated('show') || anyHolds('hide'),
+        disabled: gated('enable') || anyHolds('disable'),
+        required: anyHolds('require'),
+      }]
+    }))
+
+    const settled = fields.every(field => {
+      const [before, after] = [previous.get(field.id), states.get(field.id)!]
+      return before?.hidden === after.hidden && before.disabled === after.disabled && before.required === after.required
+    })
+    if (settled) break
+  }
+
+  return states
+}
+
+/**
+ * The fields as the user currently sees them: hidden fields are left out,
+ * disabled ones become read-only and conditionally required ones required.
+ * Completion and validation work on this list.
+ */
+export const applyConditions = (fields: FormField[], states = resolveFieldStates(fields)): FormField[] =>
+  fields.flatMap(field => {
+    const state = states.get(field.id)
+    if (!state) return [field]
+    if (state.hidden) return []
+    return [{
+      ...field,
+      ...(state.disabled && { readOnly: true }),
+      ...(state.required && { required: true }),
+    }]
+  })
+
+// "Show when Question 4a is Yes"
+export const describeCondition = (condition: FieldCondition, fields: FormField[]) => {
+  const effect = conditionEffects.find(candidate => candidate.id === condition.effect)?.name
+  const test = conditionTests.find(candidate => candidate.id === condition.test)?.name
+  const controller = fields.find(field => field.name === condition.fieldName)?.label ?? condition.fieldName
+  const value = condition.test === 'equals' || condition.test === 'notEquals' ? ` "${condition.value ?? ''}"` : ''
+  return `${effect} when ${controller} ${test}${value}`
+}
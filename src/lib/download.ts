@@ -0,0 +1,14 @@
+// Saves data through a temporary object URL and link click
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// "form.pdf" -> "form", used to name files derived from an upload
+export const baseFileName = (fileName: string) => fileName.replace(/\.pdf$/i, '')
@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest'
+import { historyShortcut } from './edit-history'
+
+const press = (target: Element, key: string, options: KeyboardEventInit = { ctrlKey: true }) => {
+  let shortcut: ReturnType<typeof historyShortcut>
+  document.addEventListener('keydown', e => { shortcut = historyShortcut(e) }, { once: true })
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, ...options }))
+  return shortcut
+}
+
+afterEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('historyShortcut', () => {
+  it('maps Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z or Ctrl+Y to redo', () => {
+    expect(press(document.body, 'z')).toBe('undo')
+    expect(press(document.body, 'z', { metaKey: true })).toBe('undo')
+    expect(press(document.body, 'Z', { ctrlKey: true, shiftKey: true })).toBe('redo')
+    expect(press(document.body, 'y')).toBe('redo')
+    expect(press(document.body, 'z', {})).toBeUndefined()
+    expect(press(document.body, 'z', { ctrlKey: true, altKey: true })).toBeUndefined()
+  })
+
+  it('uses the edit history in the form fields and the browser undo in other text inputs', () => {
+    document.body.innerHTML = `
+      <div data-edit-history><input id="field" /><textarea id="notes"></textarea></div>
+      <input id="search" />
+      <input id="toggle" type="checkbox" />`
+    expect(press(document.getElementById('field')!, 'z')).toBe('undo')
+    expect(press(document.getElementById('notes')!, 'y')).toBe('redo')
+    expect(press(document.getElementById('search')!, 'z')).toBeUndefined()
+    expect(press(document.getElementById('toggle')!, 'z')).toBe('undo')
+  })
+
+  it('leaves dialogs and IME compositions alone', () => {
+    document.body.innerHTML = '<div role="dialog" data-edit-history><input id="field" /></div>'
+    expect(press(document.getElementById('field')!, 'z')).toBeUndefined()
+    expect(press(document.body, 'z', { ctrlKey: true, isComposing: true })).toBeUndefined()
+  })
+})
@@ -0,0 +1,88 @@
+import type { FormField } from '@/types/form'
+
+type FieldValues = Record<string, FormField['value']> // Keyed by field id
+
+export interface ValueEdit {
+  before: FieldValues
+  after: FieldValues
+  at: number // Epoch milliseconds of the latest change merged into the edit
+  coalesceKey?: string // Consecutive edits with the same key merge, e.g. keystrokes in one field
+}
+
+export interface EditHistory {
+  past: ValueEdit[]
+  future: ValueEdit[]
+}
+
+export const emptyEditHistory: EditHistory = { past: [], future: [] }
+
+const MAX_EDITS = 200
+// Keystrokes closer together than this undo as one edit
+const COALESCE_MS = 1000
+
+const sameValues = (a: FieldValues, b: FieldValues) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(key => a[key] === b[key])
+
+/**
+ * Pushes an edit onto the undo stack and drops the redo stack. An edit with
+ * the same coalesce key as the previous one, made shortly after it, is
+ * merged into it; a merge that ends where it started is dropped.
+ */
+export const recordEdit = (history: EditHistory, edit: ValueEdit): EditHistory => {
+  if (sameValues(edit.before, edit.after)) return history
+
+  const last = history.past[history.past.length - 1]
+  if (last && edit.coalesceKey && last.coalesceKey === edit.coalesceKey && edit.at - last.at < COALESCE_MS) {
+    const merged = { ...last, after: { ...last.after, ...edit.after }, at: edit.at }
+    const past = history.past.slice(0, -1)
+    return { past: sameValues(merged.before, merged.after) ? past : [...past, merged], future: [] }
+  }
+
+  return { past: [...history.past, edit].slice(-MAX_EDITS), future: [] }
+}
+
+// Moves the latest edit to the redo stack and returns the values to apply
+export const undoEdit = (history: EditHistory) => {
+  const edit = history.past[history.past.length - 1]
+  if (!edit) return null
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, edit] },
+    values: edit.before,
+  }
+}
+
+// Moves the latest undone edit back to the undo stack and returns the values to apply
+export const redoEdit = (history: EditHistory) => {
+  const edit = history.future[history.future.length - 1]
+  if (!edit) return null
+  return {
+    history: { past: [...history.past, edit], future: history.future.slice(0, -1) },
+    values: edit.after,
+  }
+}
+
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'color', 'file']
+
+/**
+ * What a key press asks of the edit history: Ctrl/Cmd+Z undoes,
+ * Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo. Inputs inside an element marked
+ * data-edit-history, the form's fields, use the history too, since what is
+ * typed into them is recorded there and the browser's own undo cannot
+ * reach imports, autofill or clearing. Other text inputs keep the
+ * browser's undo, dialogs their own shortcuts, and IME compositions are
+ * left alone.
+ */
+export const historyShortcut = (e: KeyboardEvent): 'undo' | 'redo' | undefined => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey || e.defaultPrevented || e.isComposing) return undefined
+
+  const target = e.target instanceof Element ? e.target : null
+  if (target?.closest('[role="dialog"], [role="alertdialog"]')) return undefined
+  const isTextEntry = target instanceof HTMLTextAreaElement
+    || (target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type))
+    || (target instanceof HTMLElement && target.isContentEditable)
+  if (isTextEntry && !target.closest('[data-edit-history]')) return undefined
+
+  const key = e.key.toLowerCase()
+  if (key === 'z') return e.shiftKey ? 'redo' : 'undo'
+  return key === 'y' && !e.shiftKey ? 'redo' : undefined
+}
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import type { FormField } from '@/types/form'
+import { exportFdf, exportXfdf, matchImportedEntries, parseFdf, parseXfdf } from './fdf'
+
+const field = (name: string, type: FormField['type'], value: FormField['value'], option?: string): FormField => ({
+  id: name,
+  name,
+  type,
+  label: name,
+  value,
+  ...(option && { widgets: [{ pageIndex: 0, rect: { x: 0, y: 0, width: 10, height: 10 }, option }] }),
+})
+
+const fields = [
+  field('address.city', 'text', 'Springfield'),
+  field('address.street', 'textarea', 'Line 1\nLine 2 (rear)'),
+  field('name', 'text', 'Łódź 東京'),
+  field('agree', 'checkbox', true, 'Ja'),
+]
+
+const expectedValues = {
+  'address.city': 'Springfield',
+  'address.street': 'Line 1\nLine 2 (rear)',
+  name: 'Łódź 東京',
+  agree: true,
+}
+
+const bytesOf = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0))
+
+describe('FDF', () => {
+  it('round trips nested names, checkbox names and UTF-16 values', () => {
+    const entries = parseFdf(new TextEncoder().encode(exportFdf(fields, 'form.pdf')))
+    expect(entries).toContainEqual({ name: 'agree', value: 'Ja' })
+    expect(matchImportedEntries(fields, entries)).toEqual({ values: expectedValues, unmatched: [] })
+  })
+
+  it('reports entries that match no field', () => {
+    const entries = parseFdf(new TextEncoder().encode(exportFdf([...fields, field('address.zip', 'text', '12345')], 'form.pdf')))
+    expect(matchImportedEntries(fields, entries).unmatched).toEqual(['address.zip'])
+  })
+
+  it('decodes strings without a BOM as PDFDocEncoding', () => {
+    const fdf = '%FDF-1.2\n1 0 obj\n<< /FDF << /Fields [<< /T (note) /V (\\200 Caf\\351 \\205 \\215A\\216 \\240\\222) >>] >> >>\nendobj'
+    expect(parseFdf(bytesOf(fdf))).toEqual([{ name: 'note', value: '• Café – “A” €™' }])
+  })
+
+  it('reads long values', () => {
+    const value = 'Lorem ipsum\n'.repeat(50000)
+    const [entry] = parseFdf(new TextEncoder().encode(exportFdf([field('notes', 'textarea', value)], 'form.pdf')))
+    expect(entry).toEqual({ name: 'notes', value })
+  })
+})
+
+describe('XFDF', () => {
+  it('round trips nested names, checkbox values and Unicode values', () => {
+    const entries = parseXfdf(exportXfdf(fields, 'form & co.pdf'))
+    expect(entries).toContainEqual({ name: 'address.city', value: 'Springfield' })
+    expect(matchImportedEntries(fields, entries)).toEqual({ values: expectedValues, unmatched: [] })
+  })
+
+  it('reports entries that match no field', () => {
+    const entries = parseXfdf(exportXfdf([field('other', 'text', 'x'), ...fields], 'form.pdf'))
+    expect(matchImportedEntries(fields, entries).unmatched).toEqual(['other'])
+  })
+})
@@ -0,0 +1,391 @@
+import type { FormField } from '@/types/form'
+
+export interface FormDataEntry {
+  name: string // Fully qualified field name
+  value: string | string[]
+}
+
+interface FieldNameNode {
+  children: Map<string, FieldNameNode>
+  value?: string
+}
+
+// FDF and XFDF nest fields by the parts of their qualified name, so
+// "address.city" becomes a "city" kid of an "address" parent
+const buildNameTree = (entries: { name: string; value: string }[]) => {
+  const root: FieldNameNode = { children: new Map() }
+  entries.forEach(({ name, value }) => {
+    let node = root
+    name.split('.').forEach(part => {
+      if (!node.children.has(part)) node.children.set(part, { children: new Map() })
+      node = node.children.get(part)!
+    })
+    node.value = value
+  })
+  return root
+}
+
+// Checkboxes are exchanged by their export value rather than true/false
+export const toExchangeValue = (field: FormField) => {
+  if (field.type === 'checkbox') {
+    const onValue = field.widgets?.find(widget => widget.option)?.option ?? 'Yes'
+    return field.value === true ? onValue : 'Off'
+  }
+  return String(field.value)
+}
+
+const exportableEntries = (fields: FormField[]) =>
+  fields
+    .filter(field => field.type !== 'signature')
+    .map(field => ({ name: field.name, value: toExchangeValue(field) }))
+
+// XFDF
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const writeXfdfNode = (name: string, node: FieldNameNode, indent: string): string => {
+  const lines = [`${indent}<field name="${escapeXml(name)}">`]
+  if (node.value !== undefined) lines.push(`${indent}  <value>${escapeXml(node.value)}</value>`)
+  node.children.forEach((child, childName) => lines.push(writeXfdfNode(childName, child, `${indent}  `)))
+  lines.push(`${indent}</field>`)
+  return lines.join('\n')
+}
+
+export const exportXfdf = (fields: FormField[], pdfFileName: string) => {
+  const tree = buildNameTree(exportableEntries(fields))
+  const fieldNodes = Array.from(tree.children, ([name, node]) => writeXfdfNode(name, node, '    '))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xfdf xmlns="http://ns.adobe.com/xfdf/" xml:space="preserve">',
+    `  <f href="${escapeXml(pdfFileName)}"/>`,
+    '  <fields>',
+    ...fieldNodes,
+    '  </fields>',
+    '</xfdf>',
+    '',
+  ].join('\n')
+}
+
+export const parseXfdf = (text: string): FormDataEntry[] => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml')
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XFDF')
+  }
+
+  const entries: FormDataEntry[] = []
+  const visit = (element: Element, parentName: string) => {
+    Array.from(element.children)
+      .filter(child => child.localName === 'field')
+      .forEach(field => {
+        const partialName = field.getAttribute('name') ?? ''
+        const name = parentName ? `${parentName}.${partialName}` : partialName
+        const values = Array.from(field.children)
+          .filter(child => child.localName === 'value' || child.localName === 'value-richtext')
+          .map(value => value.textContent ?? '')
+
+        if (values.length > 0) entries.push({ name, value: values.length === 1 ? values[0] : values })
+        visit(field, name)
+      })
+  }
+
+  Array.from(xml.documentElement.children)
+    .filter(child => child.localName === 'fields')
+    .forEach(fields => visit(fields, ''))
+  return entries
+}
+
+// FDF
+
+const isAscii = (text: string) => Array.from(text).every(char => char.charCodeAt(0) < 128)
+
+// ASCII strings are written as literals; anything else as UTF-16BE hex with a BOM
+const encodePdfString = (text: string) => {
+  if (isAscii(text)) return `(${text.replace(/([\\()])/g, '\\$1').replace(/\r/g, '\\r').replace(/\n/g, '\\n')})`
+
+  const hex = Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0'))
+  return `<FEFF${hex.join('').toUpperCase()}>`
+}
+
+const encodePdfName = (name: string) =>
+  `/${Array.from(new TextEncoder().encode(name), byte =>
+    byte > 0x20 && byte < 0x7f && !'#()<>[]{}/%'.includes(String.fromCharCode(byte))
+      ? String.fromCharCode(byte)
+      : `#${byte.toString(16).padStart(2, '0')}`
+  ).join('')}`
+
+const writeFdfNode = (name: string, node: FieldNameNode, nameValued: Set<string>, qualifiedName: string): string => {
+  const parts = [`/T ${encodePdfString(name)}`]
+  if (node.value !== undefined) {
+    parts.push(`/V ${nameValued.has(qualifiedName) ? encodePdfName(node.value) : encodePdfString(node.value)}`)
+  }
+  if (node.children.size > 0) {
+    const kids = Array.from(node.children, ([childName, child]) =>
+      writeFdfNode(childName, child, nameValued, `${qualifiedName}.${childName}`))
+    parts.push(`/Kids [${kids.join(' ')}]`)
+  }
+  return `<< ${parts.join(' ')} >>`
+}
+
+export const exportFdf = (fields: FormField[], pdfFileName: string) => {
+  const tree = buildNameTree(exportableEntries(fields))
+
+  // Button fields take their value as a name object, everything else as a string
+  const nameValued = new Set(
+    fields.filter(field => field.type === 'checkbox' || field.type === 'radio').map(field => field.name)
+  )
+  const fieldDicts = Array.from(tree.children, ([name, node]) => writeFdfNode(name, node, nameValued, name))
+
+  return [
+    '%FDF-1.2',
+    '1 0 obj',
+    `<< /FDF << /F ${encodePdfString(pdfFileName)} /Fields [${fieldDicts.join('\n')}] >> >>`,
+    'endobj',
+    'trailer',
+    '<< /Root 1 0 R >>',
+    '%%EOF',
+    '',
+  ].join('\n')
+}
+
+type FdfValue = string | number | boolean | null | FdfName | FdfValue[] | { [key: string]: FdfValue }
+
+class FdfName {
+  readonly name: string
+
+  constructor(name: string) {
+    this.name = name
+  }
+}
+
+const isWhitespace = (char: string) => /[\0\t\n\f\r ]/.test(char)
+const isDelimiter = (char: string) => '()<>[]{}/%'.includes(char)
+
+// A small reader for the subset of PDF object syntax FDF files use
+class FdfReader {
+  private position = 0
+  private readonly text: string
+
+  constructor(text: string) {
+    this.text = text
+  }
+
+  private skipWhitespace() {
+    while (this.position < this.text.length) {
+      const char = this.text[this.position]
+      if (char === '%') {
+        while (this.position < this.text.length && !/[\r\n]/.test(this.text[this.position])) this.position++
+      } else if (isWhitespace(char)) {
+        this.position++
+      } else {
+        break
+      }
+    }
+  }
+
+  private readToken() {
+    const start = this.position
+    while (this.position < this.text.length && !isWhitespace(this.text[this.position]) && !isDelimiter(this.text[this.position])) {
+      this.position++
+    }
+    return this.text.slice(start, this.position)
+  }
+
+  private readLiteralString() {
+    const bytes: number[] = []
+    let depth = 1
+    this.position++
+
+    while (this.position < this.text.length) {
+      const char = this.text[this.position++]
+      if (char === '\\') {
+        const next = this.text[this.position++]
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 }
+        if (next in escapes) {
+          bytes.push(escapes[next])
+        } else if (/[0-7]/.test(next)) {
+          let octal = next
+          while (octal.length < 3 && /[0-7]/.test(this.text[this.position])) octal += this.text[this.position++]
+          bytes.push(parseInt(octal, 8) & 0xff)
+        } else if (next === '\r' && this.text[this.position] === '\n') {
+          this.position++
+        }
+      } else if (char === '(') {
+        depth++
+        bytes.push(40)
+      } else if (char === ')') {
+        if (--depth === 0) break
+        bytes.push(41)
+      } else {
+        bytes.push(char.charCodeAt(0) & 0xff)
+      }
+    }
+    return decodePdfBytes(bytes)
+  }
+
+  private readHexString() {
+    this.position++
+    const end = this.text.indexOf('>', this.position)
+    const hex = this.text.slice(this.position, end).replace(/\s+/g, '')
+    this.position = end + 1
+
+    const padded = hex.length % 2 === 0 ? hex : `${hex}0`
+    const bytes = padded.match(/../g)?.map(pair => parseInt(pair, 16)) ?? []
+    return decodePdfBytes(bytes)
+  }
+
+  private readName() {
+    this.position++
+    return new FdfName(this.readToken().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))))
+  }
+
+  readObject(): FdfValue {
+    this.skipWhitespace()
+    const char = this.text[this.position]
+
+    if (char === '<' && this.text[this.position + 1] === '<') {
+      this.position += 2
+      const dict: { [key: string]: FdfValue } = {}
+      for (;;) {
+        this.skipWhitespace()
+        if (this.text.startsWith('>>', this.position)) {
+          this.position += 2
+          return dict
+        }
+        if (this.position >= this.text.length) throw new Error('Unterminated dictionary in FDF')
+        const key = this.readObject()
+        if (!(key instanceof FdfName)) throw new Error('Expected a name as FDF dictionary key')
+        dict[key.name] = this.readObject()
+      }
+    }
+    if (char === '[') {
+      this.position++
+      const array: FdfValue[] = []
+      for (;;) {
+        this.skipWhitespace()
+        if (this.text[this.position] === ']') {
+          this.position++
+          return array
+        }
+        if (this.position >= this.text.length) throw new Error('Unterminated array in FDF')
+        array.push(this.readObject())
+      }
+    }
+    if (char === '(') return this.readLiteralString()
+    if (char === '<') return this.readHexString()
+    if (char === '/') return this.readName()
+
+    const token = this.readToken()
+    if (token === '') throw new Error(`Unexpected character "${char}" in FDF`)
+    if (token === 'true' || token === 'false') return token === 'true'
+    if (token === 'null') return null
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      // Skip the "0 R" of an indirect reference; FDF field values are direct
+      const saved = this.position
+      this.skipWhitespace()
+      const generation = this.readToken()
+      this.skipWhitespace()
+      if (/^\d+$/.test(generation) && this.text[this.position] === 'R') {
+        this.position++
+        return null
+      }
+      this.position = saved
+      return Number(token)
+    }
+    return token
+  }
+
+  // Finds the object following "<number> <number> obj" for the root object
+  readRootDictionary() {
+    const match = /\d+\s+\d+\s+obj/.exec(this.text)
+    if (!match) throw new Error('The file is not valid FDF')
+    this.position = match.index + match[0].length
+    return this.readObject()
+  }
+}
+
+// Where PDFDocEncoding differs from Latin-1: accents in 0x18-0x1F,
+// typographic characters in 0x80-0x9F and the euro sign at 0xA0
+const pdfDocEncodingChars: Record<number, string> = {
+  0x18: '\u02d8', 0x19: '\u02c7', 0x1a: '\u02c6', 0x1b: '\u02d9', 0x1c: '\u02dd', 0x1d: '\u02db', 0x1e: '\u02da', 0x1f: '\u02dc',
+  0x80: '\u2022', 0x81: '\u2020', 0x82: '\u2021', 0x83: '\u2026', 0x84: '\u2014', 0x85: '\u2013', 0x86: '\u0192', 0x87: '\u2044',
+  0x88: '\u2039', 0x89: '\u203a', 0x8a: '\u2212', 0x8b: '\u2030', 0x8c: '\u201e', 0x8d: '\u201c', 0x8e: '\u201d', 0x8f: '\u2018',
+  0x90: '\u2019', 0x91: '\u201a', 0x92: '\u2122', 0x93: '\ufb01', 0x94: '\ufb02', 0x95: '\u0141', 0x96: '\u0152', 0x97: '\u0160',
+  0x98: '\u0178', 0x99: '\u017d', 0x9a: '\u0131', 0x9b: '\u0142', 0x9c: '\u0153', 0x9d: '\u0161', 0x9e: '\u017e', 0xa0: '\u20ac',
+}
+
+// PDF text strings are PDFDocEncoding, or UTF-16BE when they start with a BOM
+const decodePdfBytes = (bytes: number[]) => {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = ''
+    for (let i = 2; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1])
+    return text
+  }
+  return Array.from(bytes, byte => pdfDocEncodingChars[byte] ?? String.fromCharCode(byte)).join('')
+}
+
+const fdfValueToString = (value: FdfValue): string | string[] | undefined => {
+  if (typeof value === 'string') return value
+  if (value instanceof FdfName) return value.name
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value)) return value.map(fdfValueToString).filter((item): item is string => typeof item === 'string')
+  return undefined
+}
+
+export const parseFdf = (bytes: Uint8Array): FormDataEntry[] => {
+  // One character per byte, so binary strings survive until they are decoded
+  const text = Array.from(bytes, byte => String.fromCharCode(byte)).join('')
+  if (!text.startsWith('%FDF-')) throw new Error('The file is not valid FDF')
+
+  const root = new FdfReader(text).readRootDictionary() as { [key: string]: FdfValue }
+  const fdf = root?.FDF as { [key: string]: FdfValue } | undefined
+  const fields = fdf?.Fields
+  if (!Array.isArray(fields)) return []
+
+  const entries: FormDataEntry[] = []
+  const visit = (nodes: FdfValue[], parentName: string) => {
+    nodes.forEach(node => {
+      if (!node || typeof node !== 'object' || Array.isArray(node) || node instanceof FdfName) return
+
+      const partialName = typeof node.T === 'string' ? node.T : ''
+      const name = parentName && partialName ? `${parentName}.${partialName}` : partialName || parentName
+      const value = node.V !== undefined ? fdfValueToString(node.V) : undefined
+      if (value !== undefined) entries.push({ name, value })
+      if (Array.isArray(node.Kids)) visit(node.Kids, name)
+    })
+  }
+  visit(fields, '')
+  return entries
+}
+
+/**
+ * Converts imported entries to FormField values keyed by field id, matching
+ * fields by fully qualified name. Entries that match no field are returned
+ * by name in `unmatched`.
+ */
+export const matchImportedEntries = (fields: FormField[], entries: FormDataEntry[]) => {
+  const fieldsByName = new Map(fields.map(field => [field.name, field]))
+  const values: Record<string, string | boolean> = {}
+  const unmatched: string[] = []
+
+  entries.forEach(({ name, value }) => {
+    const field = fieldsByName.get(name)
+    if (!field || field.type === 'signature') {
+      unmatched.push(name)
+      return
+    }
+
+    // Multi-valued entries are reduced to their first value, as in detection
+    const singleValue = Array.isArray(value) ? value[0] ?? '' : value
+    values[field.id] = field.type === 'checkbox'
+      ? singleValue !== '' && singleValue !== 'Off'
+      : singleValue
+  })
+
+  return { values, unmatched }
+}
@@ -0,0 +1,105 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { createFixturePdf } from '@/test/fixtures'
+import { classifyField, isFillable, toFormFieldType, writeFieldValue } from './field-classification'
+import { detectFormFields } from './pdf-form'
+
+let fixtureBytes: Uint8Array
+
+beforeAll(async () => {
+  fixtureBytes = await createFixturePdf()
+})
+
+const loadFixture = () => PDFDocument.load(fixtureBytes)
+
+describe('classifyField', () => {
+  it('classifies every field by its pdf-lib type', async () => {
+    const form = (await loadFixture()).getForm()
+    const kinds = Object.fromEntries(form.getFields().map(field => [field.getName(), classifyField(field)]))
+
+    expect(kinds).toEqual({
+      name: 'text',
+      comments: 'text',
+      agree: 'checkbox',
+      color: 'radio',
+      country: 'dropdown',
+      languages: 'optionList',
+      submit: 'button',
+      signature: 'signature',
+      'address.city': 'text',
+    })
+  })
+
+  it('leaves push buttons out of the fillable fields', async () => {
+    const form = (await loadFixture()).getForm()
+    expect(isFillable(form.getField('submit'))).toBe(false)
+    expect(isFillable(form.getField('name'))).toBe(true)
+  })
+})
+
+describe('toFormFieldType', () => {
+  it('maps pdf-lib fields onto FormField types', async () => {
+    const form = (await loadFixture()).getForm()
+    const type = (name: string) => toFormFieldType(form.getField(name))
+
+    expect(type('name')).toBe('text')
+    expect(type('comments')).toBe('textarea')
+    expect(type('agree')).toBe('checkbox')
+    expect(type('color')).toBe('radio')
+    expect(type('country')).toBe('select')
+    expect(type('languages')).toBe('select')
+    expect(type('signature')).toBe('signature')
+  })
+})
+
+describe('writeFieldValue', () => {
+  // Writes the values, saves the document and detects its fields again
+  const roundTrip = async (values: Record<string, string | boolean>) => {
+    const pdfDoc = await loadFixture()
+    const form = pdfDoc.getForm()
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+    const written = Object.entries(values).map(([name, value]) => writeFieldValue(form.getField(name), value, font))
+    const saved = await PDFDocument.load(await pdfDoc.save())
+    const fields = Object.fromEntries(detectFormFields(saved).map(field => [field.name, field.value]))
+    return { written, fields }
+  }
+
+  it('round-trips a value through every fillable kind', async () => {
+    const { written, fields } = await roundTrip({
+      name: 'Ada Lovelace',
+      comments: 'First line\nSecond line',
+      agree: true,
+      color: 'Blue',
+      country: 'Mexico',
+      languages: 'French',
+    })
+
+    expect(written.every(Boolean)).toBe(true)
+    expect(fields).toMatchObject({
+      name: 'Ada Lovelace',
+      comments: 'First line\nSecond line',
+      agree: true,
+      color: 'Blue',
+      country: 'Mexico',
+      languages: 'French',
+    })
+  })
+
+  it('clears fields given an empty value', async () => {
+    const { fields } = await roundTrip({ name: '', agree: false, color: '', country: '' })
+    expect(fields).toMatchObject({ name: '', agree: false, color: '', country: '' })
+  })
+
+  it('keeps the stored value behind formatted text', async () => {
+    const pdfDoc = await loadFixture()
+    const name = pdfDoc.getForm().getTextField('name')
+    writeFieldValue(name, '$1,234.50', await pdfDoc.embedFont(StandardFonts.Helvetica), '1234.5')
+    expect(name.getText()).toBe('1234.5')
+  })
+
+  it('reports kinds that hold no value', async () => {
+    const form = (await loadFixture()).getForm()
+    expect(writeFieldValue(form.getField('submit'), 'x')).toBe(false)
+    expect(writeFieldValue(form.getField('signature'), 'x')).toBe(false)
+  })
+})
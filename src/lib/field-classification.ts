@@ -0,0 +1,137 @@
+import {
+  PDFButton,
+  PDFCheckBox,
+  PDFDropdown,
+  PDFField,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+} from 'pdf-lib'
+import type { FormField } from '@/types/form'
+
+export type PdfFieldKind =
+  | 'text'
+  | 'checkbox'
+  | 'radio'
+  | 'dropdown'
+  | 'optionList'
+  | 'button'
+  | 'signature'
+  | 'unknown'
+
+// Classify with instanceof rather than constructor.name, which the
+// production build mangles
+export const classifyField = (field: PDFField): PdfFieldKind => {
+  if (field instanceof PDFTextField) return 'text'
+  if (field instanceof PDFCheckBox) return 'checkbox'
+  if (field instanceof PDFRadioGroup) return 'radio'
+  if (field instanceof PDFDropdown) return 'dropdown'
+  if (field instanceof PDFOptionList) return 'optionList'
+  if (field instanceof PDFButton) return 'button'
+  if (field instanceof PDFSignature) return 'signature'
+  return 'unknown'
+}
+
+// Push buttons carry no value, so they never become FormFields
+export const isFillable = (field: PDFField) => classifyField(field) !== 'button'
+
+export const toFormFieldType = (field: PDFField): FormField['type'] => {
+  switch (classifyField(field)) {
+    case 'text':
+      return (field as PDFTextField).isMultiline() ? 'textarea' : 'text'
+    case 'checkbox':
+      return 'checkbox'
+    case 'radio':
+      return 'radio'
+    case 'dropdown':
+    case 'optionList':
+      return 'select'
+    case 'signature':
+      return 'signature'
+    default:
+      return 'text'
+  }
+}
+
+// When the new value cannot be drawn, the field gets its old value back and
+// is marked clean, so later appearance updates keep the old appearance
+// instead of failing on the same value again
+const revertOnFailure = (field: PDFField, write: () => void) => {
+  const value = field.acroField.dict.get(PDFName.of('V'))
+  try {
+    write()
+  } catch (error) {
+    if (value) {
+      field.acroField.dict.set(PDFName.of('V'), value)
+    } else {
+      field.acroField.dict.delete(PDFName.of('V'))
+    }
+    field.doc.getForm().markFieldAsClean(field.ref)
+    throw error
+  }
+}
+
+/**
+ * Writes a FormField value back into the matching pdf-lib field. When a font
+ * is given, the field's appearance is regenerated with it right away, so a
+ * value the font cannot encode fails here rather than when saving; the field
+ * then keeps its old value. Returns false when the field kind cannot hold a
+ * value.
+ * A text field's stored value may differ from the text it displays, as
+ * Acrobat keeps "1234.5" behind a field formatted as "$1,234.50".
+ */
+export const writeFieldValue = (field: PDFField, value: FormField['value'], font?: PDFFont, storedValue?: string): boolean => {
+  switch (classifyField(field)) {
+    case 'text': {
+      const textField = field as PDFTextField
+      revertOnFailure(field, () => {
+        textField.setText(value === '' ? undefined : String(value))
+        if (font) textField.updateAppearances(font)
+      })
+      // Replace /V after the appearance is drawn, so the formatted text stays visible
+      if (value !== '' && storedValue !== undefined) textField.acroField.setValue(PDFHexString.fromText(storedValue))
+      return true
+    }
+
+    case 'checkbox': {
+      const checkBox = field as PDFCheckBox
+      if (value === true || value === 'true') {
+        checkBox.check()
+      } else {
+        checkBox.uncheck()
+      }
+      return true
+    }
+
+    case 'radio': {
+      const radioGroup = field as PDFRadioGroup
+      if (value) {
+        radioGroup.select(String(value))
+      } else {
+        radioGroup.clear()
+      }
+      return true
+    }
+
+    case 'dropdown':
+    case 'optionList': {
+      const choiceField = field as PDFDropdown | PDFOptionList
+      revertOnFailure(field, () => {
+        if (value) {
+          choiceField.select(String(value))
+        } else {
+          choiceField.clear()
+        }
+        if (font) choiceField.updateAppearances(font)
+      })
+      return true
+    }
+
+    default:
+      return false
+  }
+}
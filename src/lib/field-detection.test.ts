@@ -0,0 +1,67 @@
+import { createRequire } from 'node:module'
+import { PDFDocument } from 'pdf-lib'
+import { pdfjs } from 'react-pdf'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import type { FormField } from '@/types/form'
+import { createFixturePdf, createFlatFixturePdf } from '@/test/fixtures'
+import { detectFieldCandidates } from './field-detection'
+import { detectFormFields } from './pdf-form'
+
+// The pdf.js react-pdf ships, in the legacy build that runs under Node, so
+// an upgrade that changes the operator list fails here
+vi.mock('react-pdf', async () => {
+  const require = createRequire(createRequire(import.meta.url).resolve('react-pdf'))
+  return { pdfjs: await import(require.resolve('pdfjs-dist/legacy/build/pdf.mjs')) }
+})
+
+let detected: FormField[]
+
+beforeAll(async () => {
+  detected = await detectFieldCandidates(await createFlatFixturePdf(), [])
+})
+
+describe('detectFieldCandidates', () => {
+  it('proposes fields for lines, boxes and squares labelled from nearby text, and none on graph paper', () => {
+    expect(detected.map(({ name, type, widgets }) => ({ name, type, widgets }))).toEqual([
+      { name: 'Name', type: 'text', widgets: [{ pageIndex: 0, rect: { x: 100, y: 699, width: 200, height: 16 } }] },
+      { name: 'Comments', type: 'textarea', widgets: [{ pageIndex: 0, rect: { x: 50, y: 560, width: 300, height: 60 } }] },
+      { name: 'I agree', type: 'checkbox', widgets: [{ pageIndex: 0, rect: { x: 50, y: 500, width: 12, height: 12 }, option: 'Yes' }] },
+      { name: 'Signature', type: 'signature', widgets: [{ pageIndex: 0, rect: { x: 100, y: 401, width: 200, height: 32 } }] },
+      { name: 'Date', type: 'text', widgets: [{ pageIndex: 0, rect: { x: 100, y: 201, width: 200, height: 16 } }] },
+    ])
+  })
+
+  it('labels fields from page text and leaves them without an input type', () => {
+    expect(detected.every(field => field.labelSource === 'pageText' && field.inputType === undefined)).toBe(true)
+  })
+
+  it('proposes nothing over fields the PDF already has', async () => {
+    const pdfBytes = await createFixturePdf()
+    const existing = detectFormFields(await PDFDocument.load(pdfBytes))
+    expect(await detectFieldCandidates(pdfBytes, existing)).toEqual([])
+  })
+
+  it('ignores the drawings when path operators are laid out differently', async () => {
+    const pdfBytes = await createFlatFixturePdf()
+    const pdf = await pdfjs.getDocument({ data: pdfBytes.slice() }).promise
+    const pageProxy = Object.getPrototypeOf(await pdf.getPage(1))
+    await pdf.destroy()
+
+    // One path in the layout of pdf.js 4, [operators, coordinates, bounding box], among readable ones
+    const getOperatorList = pageProxy.getOperatorList
+    const spy = vi.spyOn(pageProxy, 'getOperatorList').mockImplementation(async function (this: unknown, ...args: unknown[]) {
+      const list = await getOperatorList.apply(this, args)
+      const index = list.fnArray.indexOf(pdfjs.OPS.constructPath)
+      list.argsArray[index] = [[pdfjs.OPS.moveTo, pdfjs.OPS.lineTo], [100, 698, 300, 698], null]
+      return list
+    })
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    try {
+      expect(await detectFieldCandidates(pdfBytes, [])).toEqual([])
+      expect(warn).toHaveBeenCalled()
+    } finally {
+      spy.mockRestore()
+      warn.mockRestore()
+    }
+  })
+})
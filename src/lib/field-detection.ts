@@ -0,0 +1,333 @@
+import { pdfjs } from 'react-pdf'
+import type { FieldWidget, FormField, PdfRect } from '@/types/form'
+import { cleanLabel, findNearbyText, type PageTextItem } from './field-labels'
+import { createDesignedField, nextFieldName, sortByPosition, type DesignFieldType } from './form-designer'
+
+type Matrix = [number, number, number, number, number, number]
+
+interface PageText {
+  items: PageTextItem[] // Every text run, underscores included
+  labels: PageTextItem[] // Text runs split around underscore blanks, for labels
+  blanks: PdfRect[] // Runs of underscores, as lines on their baseline
+}
+
+interface Candidate {
+  type: DesignFieldType | 'textarea'
+  rect: PdfRect
+}
+
+// Sizes in PDF units
+const MIN_LINE_WIDTH = 36
+const MAX_LINE_THICKNESS = 2
+const CHECKBOX_SIZE = { min: 6, max: 20 }
+const TEXT_BOX_HEIGHT = { min: 10, max: 80 }
+const MULTILINE_HEIGHT = 36
+const LINE_FIELD_HEIGHT = 16
+const SIGNATURE_FIELD_HEIGHT = 32
+// Pages with more candidates than this are grids or graph paper rather than forms
+const MAX_CANDIDATES_PER_PAGE = 150
+
+const UNDERSCORES = /_{3,}/g
+const SIGNATURE_LABEL = /\b(signature|signed|sign here)\b/i
+
+// [a b c d e f] as in the PDF cm operator, applying m before n
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+]
+
+// Coordinates following each pdf.js DrawOPS code in constructPath data: moveTo, lineTo, curveTo, closePath
+const PATH_COORDINATES: Record<number, number> = { 0: 2, 1: 2, 2: 6, 3: 0 }
+
+const isMatrix = (value: unknown): value is ArrayLike<number> =>
+  (Array.isArray(value) || ArrayBuffer.isView(value)) && (value as ArrayLike<unknown>).length === 6
+    && Array.from(value as ArrayLike<unknown>).every(Number.isFinite)
+
+// [painting operator, [path data], bounding box], with null path data for empty paths
+const isPathArguments = (args: unknown): args is [number, [ArrayLike<number> | null]] =>
+  Array.isArray(args) && typeof args[0] === 'number' && Array.isArray(args[1])
+    && (args[1][0] === null || Array.isArray(args[1][0]) || ArrayBuffer.isView(args[1][0]))
+
+const transformPoint = (m: Matrix, x: number, y: number) => ({ x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] })
+
+// Axis-aligned rectangle through the points of a closed subpath, if that is what it is
+const asRectangle = (points: { x: number; y: number }[]): PdfRect | undefined => {
+  const corners = points.length === 5 && Math.hypot(points[4].x - points[0].x, points[4].y - points[0].y) < 0.5 ? points.slice(0, 4) : points
+  if (corners.length !== 4) return undefined
+
+  const axisAligned = corners.every((point, index) => {
+    const next = corners[(index + 1) % 4]
+    return Math.abs(point.x - next.x) < 0.5 || Math.abs(point.y - next.y) < 0.5
+  })
+  if (!axisAligned) return undefined
+
+  const xs = corners.map(point => point.x)
+  const ys = corners.map(point => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+/**
+ * Rectangles and horizontal lines drawn on a page, in PDF user space. Paths
+ * are tracked through cm operators and form XObjects; curves and clipping
+ * paths are ignored. The operator list is pdf.js internals, so a page whose
+ * path operators are not laid out as expected yields no geometry at all
+ * rather than misplaced fields.
+ */
+const readPageGeometry = async (page: pdfjs.PDFPageProxy) => {
+  const { OPS } = pdfjs
+  // Widget appearances are drawn in their own coordinates, and are fields already
+  const { fnArray, argsArray } = await page.getOperatorList({ annotationMode: pdfjs.AnnotationMode.DISABLE })
+  const boxes: PdfRect[] = []
+  const lines: PdfRect[] = []
+
+  const stack: Matrix[] = []
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0]
+
+  const addSubpath = (points: { x: number; y: number }[], closed: boolean) => {
+    const rect = closed || points.length === 5 ? asRectangle(points) : undefined
+    if (rect) {
+      // Thin filled or stroked rectangles are how many generators draw rules
+      if (rect.height <= MAX_LINE_THICKNESS && rect.width >= MIN_LINE_WIDTH) lines.push({ ...rect, height: 0 })
+      else if (rect.width > MAX_LINE_THICKNESS && rect.height > MAX_LINE_THICKNESS) boxes.push(rect)
+      return
+    }
+    points.slice(1).forEach((point, index) => {
+      const previous = points[index]
+      if (Math.abs(point.y - previous.y) < 0.5 && Math.abs(point.x - previous.x) >= MIN_LINE_WIDTH) {
+        lines.push({ x: Math.min(point.x, previous.x), y: point.y, width: Math.abs(point.x - previous.x), height: 0 })
+      }
+    })
+  }
+
+  // False when the path data holds something other than the known DrawOPS
+  const readPath = (path: ArrayLike<number>) => {
+    let points: { x: number; y: number }[] = []
+    let curved = false
+    const finish = (closed: boolean) => {
+      if (!curved && points.length > 1) addSubpath(points, closed)
+      points = []
+      curved = false
+    }
+
+    for (let i = 0; i < path.length;) {
+      const op = path[i++]
+      const count = PATH_COORDINATES[op]
+      if (count === undefined || i + count > path.length) return false
+      switch (op) {
+        case 0: // moveTo
+          finish(false)
+          points.push(transformPoint(ctm, path[i++], path[i++]))
+          break
+        case 1: // lineTo
+          points.push(transformPoint(ctm, path[i++], path[i++]))
+          break
+        case 2: // curveTo
+          curved = true
+          points.push(transformPoint(ctm, path[i + 4], path[i + 5]))
+          i += 6
+          break
+        case 3: // closePath
+          finish(true)
+          break
+      }
+    }
+    finish(false)
+    return true
+  }
+
+  let unreadable = false
+
+  fnArray.forEach((fn, index) => {
+    const args = argsArray[index]
+    switch (fn) {
+      case OPS.save:
+        stack.push(ctm)
+        break
+      case OPS.restore:
+        ctm = stack.pop() ?? ctm
+        break
+      case OPS.transform:
+        if (isMatrix(args)) ctm = multiply(Array.from(args) as Matrix, ctm)
+        else unreadable = true
+        break
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm)
+        if (isMatrix(args?.[0])) ctm = multiply(Array.from(args[0]) as Matrix, ctm)
+        else if (args?.[0]) unreadable = true
+        break
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? ctm
+        break
+      case OPS.constructPath: {
+        if (!isPathArguments(args)) {
+          unreadable = true
+          break
+        }
+        // endPath only sets a clip
+        const [paint, [path]] = args
+        if (paint !== OPS.endPath && path && !readPath(path)) unreadable = true
+        break
+      }
+    }
+  })
+
+  if (unreadable) {
+    console.warn('Ignoring the drawings on a page whose path operators pdf.js lays out differently than expected')
+    return { boxes: [], lines: [] }
+  }
+  return { boxes, lines }
+}
+
+// Text runs, with underscore blanks such as "Name: ________" split out of them
+const readPageText = async (page: pdfjs.PDFPageProxy): Promise<PageText> => {
+  const content = await page.getTextContent()
+  const text: PageText = { items: [], labels: [], blanks: [] }
+
+  content.items.forEach(item => {
+    if (!('str' in item) || !item.str.trim()) return
+
+    // transform holds the text origin in PDF user space, on the baseline
+    const [, , , scaleY, x, y] = item.transform as number[]
+    const height = item.height || Math.abs(scaleY)
+    const charWidth = item.width / item.str.length
+    text.items.push({ text: item.str, rect: { x, y, width: item.width, height } })
+
+    let start = 0
+    const addLabel = (end: number) => {
+      const label = cleanLabel(item.str.slice(start, end))
+      if (label) text.labels.push({ text: label, rect: { x: x + start * charWidth, y, width: (end - start) * charWidth, height } })
+    }
+    for (const match of item.str.matchAll(UNDERSCORES)) {
+      addLabel(match.index)
+      text.blanks.push({ x: x + match.index * charWidth, y, width: match[0].length * charWidth, height: 0 })
+      start = match.index + match[0].length
+    }
+    addLabel(item.str.length)
+  })
+
+  return text
+}
+
+const area = (rect: PdfRect) => rect.width * rect.height
+
+const overlapArea = (a: PdfRect, b: PdfRect) =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+  Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y))
+
+// Covers more than half of the smaller rectangle
+const overlaps = (a: PdfRect, b: PdfRect) => overlapArea(a, b) > Math.min(area(a), area(b)) / 2
+
+// Boxes holding text are table cells or headings rather than blanks to fill
+const containsText = (rect: PdfRect, items: PageTextItem[]) =>
+  items.some(item => {
+    const centerX = item.rect.x + item.rect.width / 2
+    const centerY = item.rect.y + item.rect.height / 2
+    return centerX > rect.x && centerX < rect.x + rect.width && centerY > rect.y && centerY < rect.y + rect.height
+  })
+
+// Text sitting on a line means the line underlines it, or closes a table row
+const hasTextOnLine = (line: PdfRect, items: PageTextItem[]) =>
+  items.some(item =>
+    !/^_+$/.test(item.text.trim()) &&
+    item.rect.y >= line.y - 1 &&
+    item.rect.y <= line.y + 12 &&
+    Math.min(item.rect.x + item.rect.width, line.x + line.width) - Math.max(item.rect.x, line.x) > line.width * 0.3
+  )
+
+const classifyBox = (rect: PdfRect): Candidate | undefined => {
+  const { width, height } = rect
+  const ratio = width / height
+  if (width >= CHECKBOX_SIZE.min && width <= CHECKBOX_SIZE.max && height >= CHECKBOX_SIZE.min && height <= CHECKBOX_SIZE.max && ratio > 0.75 && ratio < 1.33) {
+    return { type: 'checkbox', rect }
+  }
+  if (width >= MIN_LINE_WIDTH && width > height && height >= TEXT_BOX_HEIGHT.min && height <= TEXT_BOX_HEIGHT.max) {
+    return { type: height >= MULTILINE_HEIGHT ? 'textarea' : 'text', rect }
+  }
+  return undefined
+}
+
+const findPageCandidates = (boxes: PdfRect[], lines: PdfRect[], text: PageText, maxLineWidth: number) => {
+  const candidates: Candidate[] = []
+  const add = (candidate: Candidate) => {
+    if (!candidates.some(existing => overlaps(existing.rect, candidate.rect))) candidates.push(candidate)
+  }
+
+  boxes
+    .filter(box => !containsText(box, text.items))
+    .map(classifyBox)
+    .forEach(candidate => candidate && add(candidate))
+
+  // Underscore blanks first, since drawn lines under them would duplicate them
+  const blanks = [...text.blanks, ...lines.filter(line => line.width <= maxLineWidth && !hasTextOnLine(line, text.items))]
+  blanks.forEach(line => {
+    add({ type: 'text', rect: { x: line.x, y: line.y + 1, width: line.width, height: LINE_FIELD_HEIGHT } })
+  })
+
+  return candidates.length > MAX_CANDIDATES_PER_PAGE ? [] : candidates
+}
+
+// Field names may not contain periods, which separate the parts of nested names
+const nameFromLabel = (label: string) => label.replace(/\./g, ' ').replace(/\s+/g, ' ').trim()
+
+// Detected fields are never given an input type inferred from their label:
+// they stay plain text, without format scripts, until the user picks one
+const toField = (candidate: Candidate, pageIndex: number, text: PageText, fields: FormField[]): FormField => {
+  const label = findNearbyText(candidate.rect, text.labels, candidate.type === 'checkbox')
+  const isSignature = candidate.type === 'text' && label !== undefined && SIGNATURE_LABEL.test(label)
+  const type = isSignature ? 'signature' : candidate.type === 'textarea' ? 'text' : candidate.type
+  const rect = isSignature && candidate.rect.height < SIGNATURE_FIELD_HEIGHT
+    ? { ...candidate.rect, height: SIGNATURE_FIELD_HEIGHT }
+    : candidate.rect
+  const widget: FieldWidget = { pageIndex, rect }
+
+  let field = createDesignedField(type, fields, widget)
+  if (candidate.type === 'textarea') field = { ...field, type: 'textarea' }
+  if (label) {
+    const base = nameFromLabel(label)
+    const name = base && !fields.some(existing => existing.name === base) ? base : nextFieldName(fields, base || field.name)
+    field = { ...field, name, label, labelSource: 'pageText' }
+  }
+  return field
+}
+
+/**
+ * Proposes fields for a PDF without a form, from what its pages draw: empty
+ * boxes become text fields or checkboxes, and underlines and underscore
+ * blanks become text fields, labelled from the text printed next to them.
+ * Candidates overlapping the existing fields are left out. Scanned pages
+ * have no drawing operators to read, so they yield nothing.
+ */
+export const detectFieldCandidates = async (pdfBytes: Uint8Array, existingFields: FormField[]): Promise<FormField[]> => {
+  // pdf.js takes ownership of the buffer it is given, so pass a copy
+  const pdf = await pdfjs.getDocument({ data: pdfBytes.slice() }).promise
+  try {
+    const fields = [...existingFields]
+    const detected: FormField[] = []
+
+    for (let pageIndex = 0; pageIndex < pdf.numPages; pageIndex++) {
+      const page = await pdf.getPage(pageIndex + 1)
+      const [{ boxes, lines }, text] = await Promise.all([readPageGeometry(page), readPageText(page)])
+      const [x1, , x2] = page.view
+
+      findPageCandidates(boxes, lines, text, Math.abs(x2 - x1) * 0.8)
+        .filter(candidate => !existingFields.some(field =>
+          field.widgets?.some(widget => widget.pageIndex === pageIndex && overlaps(widget.rect, candidate.rect))
+        ))
+        .forEach(candidate => {
+          const field = toField(candidate, pageIndex, text, fields)
+          fields.push(field)
+          detected.push(field)
+        })
+    }
+
+    return sortByPosition(detected)
+  } finally {
+    await pdf.destroy()
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import type { FieldFormat } from '@/types/form'
+import {
+  filterKeystroke,
+  formatDisplayValue,
+  formatStoredValue,
+  parseDateText,
+  parseFieldScripts,
+  toFormatScripts,
+  toStoredValue,
+} from './field-format'
+
+const numberFormat = (separatorStyle: number, negativeStyle = 0, currency?: string, currencyPrepend = true): FieldFormat => ({
+  kind: 'number',
+  decimals: 2,
+  separatorStyle,
+  negativeStyle,
+  ...(currency && { currency, currencyPrepend }),
+})
+
+describe('parseFieldScripts', () => {
+  it('reads the arguments of the AF format functions', () => {
+    expect(parseFieldScripts({ format: 'AFNumber_Format(2, 1, 3, 0, "€", false);' }).format)
+      .toEqual({ kind: 'number', decimals: 2, separatorStyle: 1, negativeStyle: 3, currency: '€', currencyPrepend: false })
+    expect(parseFieldScripts({ format: 'AFPercent_Format(1, 2);' }).format).toEqual({ kind: 'percent', decimals: 1, separatorStyle: 2 })
+    expect(parseFieldScripts({ format: 'AFDate_FormatEx("dd/mm/yyyy");' }).format).toEqual({ kind: 'date', pattern: 'dd/mm/yyyy' })
+    expect(parseFieldScripts({ format: 'AFDate_Format(2);' }).format).toEqual({ kind: 'date', pattern: 'mm/dd/yy' })
+    expect(parseFieldScripts({ format: 'AFTime_Format(1);' }).format).toEqual({ kind: 'date', pattern: 'h:MM tt' })
+    expect(parseFieldScripts({ format: 'AFSpecial_Format(3);' }).format).toEqual({ kind: 'special', special: 'ssn' })
+    expect(parseFieldScripts({ keystroke: "AFSpecial_KeystrokeEx('AA-9999');" }).format).toEqual({ kind: 'mask', mask: 'AA-9999' })
+  })
+
+  it('prefers the format script and reads range checks', () => {
+    expect(parseFieldScripts({
+      format: 'AFDate_FormatEx("yyyy-mm-dd");',
+      keystroke: 'AFNumber_Keystroke(0, 0, 0, 0, "", true);',
+      validate: 'AFRange_Validate(true, 0, false, 0);',
+    })).toEqual({ format: { kind: 'date', pattern: 'yyyy-mm-dd' }, validation: [{ kind: 'range', min: 0 }] })
+  })
+
+  it('returns no format for scripts it cannot read', () => {
+    expect(parseFieldScripts({ format: 'event.value = util.printf("%.2f", event.value);' })).toEqual({})
+    expect(parseFieldScripts({ format: 'AFDate_FormatEx(pattern);', keystroke: 'AFSpecial_Format(9);' })).toEqual({})
+    expect(parseFieldScripts({})).toEqual({})
+  })
+
+  it('reads back the scripts written for a format', () => {
+    const format = numberFormat(2, 2, ' €', false)
+    expect(parseFieldScripts(toFormatScripts(format)!).format).toEqual(format)
+  })
+})
+
+describe('formatDisplayValue', () => {
+  it('groups digits in each separator style', () => {
+    expect([0, 1, 2, 3, 4].map(style => formatDisplayValue(numberFormat(style), '1234.5')))
+      .toEqual(['1,234.50', '1234.50', '1.234,50', '1234,50', "1'234.50"])
+  })
+
+  it('writes negative numbers in each negative style', () => {
+    expect([0, 1, 2, 3].map(style => formatDisplayValue(numberFormat(0, style), '-1234.5')))
+      .toEqual(['-1,234.50', '-1,234.50', '(1,234.50)', '(1,234.50)'])
+  })
+
+  it('puts the currency symbol before or after the amount', () => {
+    expect(formatDisplayValue(numberFormat(0, 0, '$'), '1234.5')).toBe('$1,234.50')
+    expect(formatDisplayValue(numberFormat(2, 0, ' €', false), '1234,5')).toBe('1.234,50 €')
+    expect(formatDisplayValue(numberFormat(0, 2, '$'), '-5')).toBe('($5.00)')
+  })
+
+  it('reformats its own output and leaves unreadable text alone', () => {
+    expect(formatDisplayValue(numberFormat(2, 0, ' €', false), '1.234,50€')).toBe('1.234,50 €')
+    expect(formatDisplayValue(numberFormat(0), 'twelve')).toBe('twelve')
+    expect(formatDisplayValue(numberFormat(0), '  ')).toBe('')
+  })
+
+  it('fills zip, zip+4, phone and social security numbers into their masks', () => {
+    expect(formatDisplayValue({ kind: 'special', special: 'zip' }, '123456')).toBe('12345')
+    expect(formatDisplayValue({ kind: 'special', special: 'zip4' }, '123456789')).toBe('12345-6789')
+    expect(formatDisplayValue({ kind: 'special', special: 'phone' }, '555 123 4567')).toBe('(555) 123-4567')
+    expect(formatDisplayValue({ kind: 'special', special: 'phone' }, '5551234')).toBe('555-1234')
+    expect(formatDisplayValue({ kind: 'special', special: 'ssn' }, '123456789')).toBe('123-45-6789')
+  })
+})
+
+describe('dates', () => {
+  const format: FieldFormat = { kind: 'date', pattern: 'dd/mm/yyyy' }
+
+  it('round trips a date through display, stored and display text', () => {
+    const display = formatDisplayValue(format, '2024-01-31')
+    expect(display).toBe('31/01/2024')
+    const stored = toStoredValue(format, display)
+    expect(stored).toBe('31/01/2024')
+    expect(formatStoredValue(format, stored)).toBe(display)
+  })
+
+  it('reads text against a pattern with loose separators', () => {
+    expect(parseDateText('3-15-2024', 'mm/dd/yyyy')).toEqual(new Date(2024, 2, 15))
+    expect(parseDateText('15 Mar 24', 'dd mmm yy')).toEqual(new Date(2024, 2, 15))
+    expect(parseDateText('2:30 pm', 'h:MM tt')).toEqual(new Date(1970, 0, 1, 14, 30))
+  })
+
+  it('rejects dates that do not exist', () => {
+    expect(parseDateText('31/02/2024', 'dd/mm/yyyy')).toBeUndefined()
+    expect(parseDateText('not a date', 'dd/mm/yyyy')).toBeUndefined()
+  })
+})
+
+describe('stored values', () => {
+  it('stores numbers plain and shows them formatted', () => {
+    expect(toStoredValue(numberFormat(2, 0, ' €', false), '1.234,50 €')).toBe('1234.5')
+    expect(formatStoredValue(numberFormat(2, 0, ' €', false), '1234.5')).toBe('1.234,50 €')
+    expect(toStoredValue(numberFormat(0, 2, '$'), '($5.00)')).toBe('-5')
+  })
+
+  it('stores percentages as fractions', () => {
+    const format: FieldFormat = { kind: 'percent', decimals: 2, separatorStyle: 0 }
+    expect(toStoredValue(format, '25%')).toBe('0.25')
+    expect(formatStoredValue(format, '0.25')).toBe('25.00%')
+  })
+
+  it('stores special formats as bare digits', () => {
+    expect(toStoredValue({ kind: 'special', special: 'ssn' }, '123-45-6789')).toBe('123456789')
+  })
+})
+
+describe('filterKeystroke', () => {
+  it('drops characters a number can never hold, keeping the currency symbol', () => {
+    expect(filterKeystroke(numberFormat(0, 0, '$'), 'a$1,2b34.5x')).toBe('$1,234.5')
+  })
+
+  it('fills masks in as the user types', () => {
+    expect(filterKeystroke({ kind: 'special', special: 'phone' }, '555123')).toBe('(555) 123')
+    expect(filterKeystroke({ kind: 'special', special: 'zip4' }, '12345')).toBe('12345')
+    expect(filterKeystroke({ kind: 'mask', mask: 'AA-9999' }, 'ab1x23')).toBe('ab-123')
+  })
+})
@@ -0,0 +1,414 @@
+import type { FieldFormat, ValidationRule } from '@/types/form'
+
+// JavaScript of a text field's additional actions, as found in the PDF
+export interface FieldScripts {
+  format?: string // /F, runs before the value is displayed
+  keystroke?: string // /K, runs on every keystroke and on commit
+  validate?: string // /V, runs after commit
+  calculate?: string // /C, runs when any field value changes
+}
+
+const separators = [
+  { group: ',', decimal: '.' },
+  { group: '', decimal: '.' },
+  { group: '.', decimal: ',' },
+  { group: '', decimal: ',' },
+  { group: "'", decimal: '.' },
+]
+
+// Indices used by AFDate_Format, AFTime_Format and AFSpecial_Format
+const datePatterns = [
+  'm/d', 'm/d/yy', 'mm/dd/yy', 'mm/yy', 'd-mmm', 'd-mmm-yy', 'dd-mmm-yy', 'yy-mm-dd',
+  'mmm-yy', 'mmmm-yy', 'mmm d, yyyy', 'mmmm d, yyyy', 'm/d/yy h:MM tt', 'm/d/yy HH:MM',
+]
+const timePatterns = ['HH:MM', 'h:MM tt', 'HH:MM:ss', 'h:MM:ss tt']
+const specials = ['zip', 'zip4', 'phone', 'ssn'] as const
+
+const specialMasks = {
+  zip: '99999',
+  zip4: '99999-9999',
+  phone: '(999) 999-9999',
+  ssn: '999-99-9999',
+}
+const SHORT_PHONE_MASK = '999-9999'
+
+const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const DATE_TOKENS = /yyyy|yy|mmmm|mmm|mm|m|dddd|ddd|dd|d|HH|H|hh|h|MM|M|ss|s|tt/g
+
+// Function calls such as AFNumber_Format(2, 0, 0, 0, "$", true)
+const AF_CALL = /\b(AF[A-Za-z]+)_(FormatEx|Format|KeystrokeEx|Keystroke|Validate)\s*\(([^)]*)\)/g
+
+export type ScriptArgument = string | number | boolean
+
+const unescapeScriptString = (text: string) =>
+  text.replace(/\\u([0-9a-fA-F]{4})|\\(.)/g, (_, hex: string | undefined, char: string | undefined) =>
+    hex ? String.fromCharCode(parseInt(hex, 16)) : char!
+  )
+
+// Only literals are read; anything else in the argument list is ignored
+export const parseScriptArguments = (text: string): ScriptArgument[] =>
+  Array.from(text.matchAll(/"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|\b(true|false)\b|([-+]?\d*\.?\d+)/g), match => {
+    if (match[1] !== undefined || match[2] !== undefined) return unescapeScriptString(match[1] ?? match[2])
+    if (match[3]) return match[3] === 'true'
+    return Number(match[4])
+  })
+
+const numberArgument = (value: ScriptArgument | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const formatFromCall = (family: string, variant: string, args: ScriptArgument[]): FieldFormat | undefined => {
+  const extended = variant.endsWith('Ex')
+  switch (family) {
+    case 'AFNumber': {
+      const currency = typeof args[4] === 'string' && args[4] !== '' ? args[4] : undefined
+      return {
+        kind: 'number',
+        decimals: numberArgument(args[0], 2),
+        separatorStyle: numberArgument(args[1], 0),
+        negativeStyle: numberArgument(args[2], 0),
+        ...(currency && { currency, currencyPrepend: args[5] !== false }),
+      }
+    }
+    case 'AFPercent':
+      return { kind: 'percent', decimals: numberArgument(args[0], 2), separatorStyle: numberArgument(args[1], 0) }
+    case 'AFDate':
+    case 'AFTime': {
+      const pattern = extended ? args[0] : (family === 'AFDate' ? datePatterns : timePatterns)[numberArgument(args[0], -1)]
+      return typeof pattern === 'string' && pattern !== '' ? { kind: 'date', pattern } : undefined
+    }
+    case 'AFSpecial': {
+      if (extended) return typeof args[0] === 'string' && args[0] !== '' ? { kind: 'mask', mask: args[0] } : undefined
+      const special = specials[numberArgument(args[0], -1)]
+      return special ? { kind: 'special', special } : undefined
+    }
+    default:
+      return undefined
+  }
+}
+
+const findFormat = (script: string | undefined) => {
+  for (const [, family, variant, args] of script?.matchAll(AF_CALL) ?? []) {
+    if (variant === 'Validate') continue
+    const format = formatFromCall(family, variant, parseScriptArguments(args))
+    if (format) return format
+  }
+  return undefined
+}
+
+const findValidation = (script: string | undefined): ValidationRule[] =>
+  Array.from(script?.matchAll(AF_CALL) ?? []).flatMap(([, family, variant, args]) => {
+    if (family !== 'AFRange' || variant !== 'Validate') return []
+    // AFRange_Validate(bGreaterThan, nGreaterThan, bLessThan, nLessThan)
+    const [hasMin, min, hasMax, max] = parseScriptArguments(args)
+    const rule: ValidationRule = {
+      kind: 'range',
+      ...(hasMin === true && typeof min === 'number' && { min }),
+      ...(hasMax === true && typeof max === 'number' && { max }),
+    }
+    return rule.min === undefined && rule.max === undefined ? [] : [rule]
+  })
+
+/**
+ * Reads the display format and range checks from a field's Acrobat
+ * scripts. The scripts are never run: only calls to the built-in AF*
+ * functions with literal arguments are recognized, and the format script
+ * wins over the keystroke script when both name a format.
+ */
+export const parseFieldScripts = (scripts: FieldScripts): { format?: FieldFormat; validation?: ValidationRule[] } => {
+  const format = findFormat(scripts.format) ?? findFormat(scripts.keystroke)
+  const validation = findValidation(scripts.validate)
+  return {
+    ...(format && { format }),
+    ...(validation.length > 0 && { validation }),
+  }
+}
+
+/**
+ * Fills typed characters into a mask, skipping those that do not fit a slot
+ * and adding literal characters as it goes. Trailing literals are dropped,
+ * so deleting back over them works.
+ */
+const applyMask = (mask: string, text: string) => {
+  const slots: Record<string, RegExp> = { '9': /\d/, A: /[A-Za-z]/, O: /[A-Za-z\d]/, X: /./ }
+  let result = ''
+  let filled = 0
+  let index = 0
+
+  for (const slot of mask) {
+    if (index >= text.length) break
+    const accepts = slots[slot]
+    if (!accepts) {
+      result += slot
+      if (text[index] === slot) index++
+      continue
+    }
+    while (index < text.length && !accepts.test(text[index])) index++
+    if (index >= text.length) break
+    result += text[index++]
+    filled = result.length
+  }
+  return result.slice(0, filled)
+}
+
+const specialMask = (special: keyof typeof specialMasks, text: string) =>
+  special === 'phone' && text.replace(/\D/g, '').length === 7 ? SHORT_PHONE_MASK : specialMasks[special]
+
+const formatDigits = (value: number, decimals: number | undefined, separatorStyle: number) => {
+  const { group, decimal } = separators[separatorStyle] ?? separators[0]
+  const digits = decimals === undefined ? String(Number(Math.abs(value).toPrecision(15))) : Math.abs(value).toFixed(Math.max(0, Math.min(decimals, 20)))
+  const [integer, fraction] = digits.split('.')
+  const grouped = group ? integer.replace(/\B(?=(\d{3})+(?!\d))/g, group) : integer
+  return fraction ? `${grouped}${decimal}${fraction}` : grouped
+}
+
+// "$(1,234.50)" -> -1234.5 for separator style 0; undefined when the text is not a number
+const parseFormattedNumber = (text: string, separatorStyle: number, currency?: string) => {
+  const { decimal } = separators[separatorStyle] ?? separators[0]
+  // Spacing around the symbol is optional, so "1.234,50€" reads like "1.234,50 €"
+  const stripped = (currency?.trim() ? text.split(currency.trim()).join('') : text).replace(/[\s%]/g, '')
+  const negative = /^[-(]/.test(stripped)
+  const digits = stripped.replace(/[()+-]/g, '')
+  // A single dot not followed by exactly three digits is a decimal point even
+  // where commas are, so machine-written values like "1234.5" still parse
+  const dotIsDecimal = decimal === '.' || (!digits.includes(',') && /^\d*\.(\d{0,2}|\d{4,})$/.test(digits))
+  const normalized = dotIsDecimal
+    ? digits.replace(/[,']/g, '')
+    : digits.replace(/[.']/g, '').replace(',', '.')
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(normalized)) return undefined
+  return (negative ? -1 : 1) * Number(normalized)
+}
+
+const formatNumber = (format: Extract<FieldFormat, { kind: 'number' }>, value: number) => {
+  const digits = formatDigits(value, format.decimals, format.separatorStyle)
+  const amount = format.currency
+    ? (format.currencyPrepend ? `${format.currency}${digits}` : `${digits}${format.currency}`)
+    : digits
+  if (value >= 0 || /^[0.,']*$/.test(digits)) return amount
+  return format.negativeStyle >= 2 ? `(${amount})` : `-${amount}`
+}
+
+const formatPercent = (format: Extract<FieldFormat, { kind: 'percent' }>, percent: number) => {
+  const digits = formatDigits(percent, format.decimals, format.separatorStyle)
+  return `${percent < 0 && !/^[0.,']*$/.test(digits) ? '-' : ''}${digits}%`
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+export const formatDate = (date: Date, pattern: string) =>
+  pattern.replace(DATE_TOKENS, token => {
+    const hours = date.getHours()
+    switch (token) {
+      case 'yyyy': return pad(date.getFullYear(), 4)
+      case 'yy': return pad(date.getFullYear() % 100)
+      case 'mmmm': return monthNames[date.getMonth()]
+      case 'mmm': return monthNames[date.getMonth()].slice(0, 3)
+      case 'mm': return pad(date.getMonth() + 1)
+      case 'm': return String(date.getMonth() + 1)
+      case 'dddd': return dayNames[date.getDay()]
+      case 'ddd': return dayNames[date.getDay()].slice(0, 3)
+      case 'dd': return pad(date.getDate())
+      case 'd': return String(date.getDate())
+      case 'HH': return pad(hours)
+      case 'H': return String(hours)
+      case 'hh': return pad(hours % 12 || 12)
+      case 'h': return String(hours % 12 || 12)
+      case 'MM': return pad(date.getMinutes())
+      case 'M': return String(date.getMinutes())
+      case 'ss': return pad(date.getSeconds())
+      case 's': return String(date.getSeconds())
+      default: return hours < 12 ? 'am' : 'pm'
+    }
+  })
+
+const tokenPatterns: Record<string, string> = {
+  yyyy: '(\\d{4})',
+  yy: '(\\d{2})',
+  mmmm: '([A-Za-z]+)',
+  mmm: '([A-Za-z]+)',
+  tt: '([AaPp][Mm]?)',
+}
+
+/**
+ * Reads text typed against a date pattern. Separators are matched loosely,
+ * so "3-15-2024" fits "mm/dd/yyyy"; parts the pattern leaves out default
+ * to 1 January 1970 at midnight.
+ */
+export const parseDateText = (text: string, pattern: string): Date | undefined => {
+  const order: string[] = []
+  let source = ''
+  let last = 0
+  for (const match of pattern.matchAll(DATE_TOKENS)) {
+    if (match.index > last) source += '[^A-Za-z0-9]*'
+    last = match.index + match[0].length
+    if (match[0] === 'dddd' || match[0] === 'ddd') {
+      source += '[A-Za-z]*'
+      continue
+    }
+    order.push(match[0])
+    source += tokenPatterns[match[0]] ?? '(\\d{1,2})'
+  }
+  if (last < pattern.length) source += '[^A-Za-z0-9]*'
+
+  const match = new RegExp(`^\\s*${source}\\s*$`).exec(text)
+  if (!match) return undefined
+
+  const parts = { year: 1970, month: 0, day: 1, hours: 0, minutes: 0, seconds: 0 }
+  let meridiem: string | undefined
+  order.forEach((token, index) => {
+    const value = match[index + 1]
+    const number = Number(value)
+    switch (token[0]) {
+      case 'y': parts.year = token === 'yy' ? (number < 50 ? 2000 : 1900) + number : number; break
+      case 'm': parts.month = token.length > 2
+        ? monthNames.findIndex(name => name.slice(0, 3).toLowerCase() === value.slice(0, 3).toLowerCase())
+        : number - 1; break
+      case 'd': parts.day = number; break
+      case 'H': case 'h': parts.hours = number; break
+      case 'M': parts.minutes = number; break
+      case 's': parts.seconds = number; break
+      case 't': meridiem = value.toLowerCase(); break
+    }
+  })
+  if (meridiem?.startsWith('p') && parts.hours < 12) parts.hours += 12
+  if (meridiem?.startsWith('a') && parts.hours === 12) parts.hours = 0
+
+  const date = new Date(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds)
+  const valid = date.getFullYear() === parts.year && date.getMonth() === parts.month && date.getDate() === parts.day
+    && date.getHours() === parts.hours && date.getMinutes() === parts.minutes
+  return valid ? date : undefined
+}
+
+// ISO dates from date pickers and exports, then whatever Date.parse understands
+const parseAnyDate = (text: string, pattern: string) => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim())
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+  const parsed = parseDateText(text, pattern)
+  if (parsed) return parsed
+  const time = Date.parse(text)
+  return Number.isNaN(time) ? undefined : new Date(time)
+}
+
+/**
+ * Drops characters the field's format can never accept while the user
+ * types, and fills masked fields in as they go, like Acrobat's keystroke
+ * scripts.
+ */
+export const filterKeystroke = (format: FieldFormat, text: string) => {
+  switch (format.kind) {
+    case 'number':
+    case 'percent': {
+      const currency = format.kind === 'number' ? format.currency ?? '' : ''
+      return Array.from(text).filter(char => /[\d\s.,'()+%-]/.test(char) || currency.includes(char)).join('')
+    }
+    case 'date':
+      return text.replace(/[^\dA-Za-z\s/.:,-]/g, '')
+    case 'special':
+      return applyMask(specialMasks[format.special], text)
+    case 'mask':
+      return applyMask(format.mask, text)
+  }
+}
+
+/**
+ * Turns what the user typed into the text Acrobat would display, e.g.
+ * "1234.5" into "$1,234.50". Text that cannot be read in the format is
+ * returned unchanged, so nothing the user entered is lost.
+ */
+export const formatDisplayValue = (format: FieldFormat, text: string) => {
+  if (text.trim() === '') return ''
+
+  switch (format.kind) {
+    case 'number': {
+      const value = parseFormattedNumber(text, format.separatorStyle, format.currency)
+      return value === undefined ? text : formatNumber(format, value)
+    }
+    case 'percent': {
+      const percent = parseFormattedNumber(text, format.separatorStyle)
+      return percent === undefined ? text : formatPercent(format, percent)
+    }
+    case 'date': {
+      const date = parseAnyDate(text, format.pattern)
+      return date ? formatDate(date, format.pattern) : text
+    }
+    case 'special':
+      return applyMask(specialMask(format.special, text), text)
+    case 'mask':
+      return applyMask(format.mask, text)
+  }
+}
+
+/**
+ * The display text for a value as stored in the PDF: numbers are stored
+ * plain ("0.25" shows as "25.00%") and special formats as bare digits.
+ */
+export const formatStoredValue = (format: FieldFormat, value: string) => {
+  const number = Number(value)
+  if (value.trim() === '' || (format.kind !== 'number' && format.kind !== 'percent') || Number.isNaN(number)) {
+    return formatDisplayValue(format, value)
+  }
+  return format.kind === 'number' ? formatNumber(format, number) : formatPercent(format, number * 100)
+}
+
+/**
+ * The value to store in the PDF for a displayed text, the reverse of
+ * formatStoredValue. Dates and masks are stored as displayed.
+ */
+export const toStoredValue = (format: FieldFormat, display: string) => {
+  switch (format.kind) {
+    case 'number': {
+      const value = parseFormattedNumber(display, format.separatorStyle, format.currency)
+      return value === undefined ? display : String(value)
+    }
+    case 'percent': {
+      const percent = parseFormattedNumber(display, format.separatorStyle)
+      return percent === undefined ? display : String(Number((percent / 100).toPrecision(15)))
+    }
+    case 'special':
+      return display.replace(/\D/g, '')
+    default:
+      return display
+  }
+}
+
+// Example input shown as the placeholder of a formatted field
+export const formatHint = (format: FieldFormat) => {
+  switch (format.kind) {
+    case 'number': return formatNumber(format, 1234.5)
+    case 'percent': return formatPercent(format, 12.5)
+    case 'date': return format.pattern
+    case 'special': return specialMasks[format.special].replace(/9/g, '0')
+    case 'mask': return format.mask
+  }
+}
+
+const scriptString = (text: string) => JSON.stringify(text)
+
+/**
+ * Acrobat format and keystroke scripts for a format, the reverse of
+ * parseFieldScripts, so fields saved by this app format the same way in
+ * other viewers. Numbers without a fixed number of decimals have no
+ * Acrobat equivalent.
+ */
+export const toFormatScripts = (format: FieldFormat): Pick<FieldScripts, 'format' | 'keystroke'> | undefined => {
+  switch (format.kind) {
+    case 'number': {
+      if (format.decimals === undefined) return undefined
+      const args = [format.decimals, format.separatorStyle, format.negativeStyle, 0, scriptString(format.currency ?? ''), format.currencyPrepend ?? true].join(', ')
+      return { format: `AFNumber_Format(${args});`, keystroke: `AFNumber_Keystroke(${args});` }
+    }
+    case 'percent': {
+      const args = `${format.decimals}, ${format.separatorStyle}`
+      return { format: `AFPercent_Format(${args});`, keystroke: `AFPercent_Keystroke(${args});` }
+    }
+    case 'date':
+      return { format: `AFDate_FormatEx(${scriptString(format.pattern)});`, keystroke: `AFDate_KeystrokeEx(${scriptString(format.pattern)});` }
+    case 'special': {
+      const index = specials.indexOf(format.special)
+      return { format: `AFSpecial_Format(${index});`, keystroke: `AFSpecial_Keystroke(${index});` }
+    }
+    case 'mask':
+      return { keystroke: `AFSpecial_KeystrokeEx(${scriptString(format.mask)});` }
+  }
+}
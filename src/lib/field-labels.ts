@@ -0,0 +1,106 @@
+import { pdfjs } from 'react-pdf'
+import type { FormField, PdfRect } from '@/types/form'
+
+export interface PageTextItem {
+  text: string
+  rect: PdfRect
+}
+
+// Labels further away than this (in PDF units) are unlikely to belong to the widget
+const MAX_SIDE_GAP = 160
+const MAX_ABOVE_GAP = 24
+const MAX_LABEL_LENGTH = 80
+
+export const cleanLabel = (text: string) => text.replace(/\s+/g, ' ').replace(/[\s:.]+$/, '').trim()
+
+const overlapsVertically = (a: PdfRect, b: PdfRect) => {
+  const center = a.y + a.height / 2
+  return center >= b.y && center <= b.y + b.height
+}
+
+/**
+ * Finds the text printed closest to a widget: to its left on the same line,
+ * to its right for checkboxes and radio buttons, or directly above it.
+ */
+export const findNearbyText = (rect: PdfRect, items: PageTextItem[], preferRight: boolean) => {
+  let best: { text: string; score: number } | undefined
+
+  const consider = (text: string, score: number) => {
+    if (!best || score < best.score) best = { text, score }
+  }
+
+  items.forEach(item => {
+    const itemRight = item.rect.x + item.rect.width
+
+    if (overlapsVertically(item.rect, rect)) {
+      const leftGap = rect.x - itemRight
+      if (leftGap >= -2 && leftGap <= MAX_SIDE_GAP) {
+        consider(item.text, preferRight ? leftGap + MAX_SIDE_GAP : leftGap)
+      }
+
+      const rightGap = item.rect.x - (rect.x + rect.width)
+      if (preferRight && rightGap >= -2 && rightGap <= MAX_SIDE_GAP) {
+        consider(item.text, rightGap)
+      }
+    }
+
+    const aboveGap = item.rect.y - (rect.y + rect.height)
+    const overlapsHorizontally = item.rect.x < rect.x + rect.width && itemRight > rect.x - 10
+    if (aboveGap >= -2 && aboveGap <= MAX_ABOVE_GAP && overlapsHorizontally) {
+      // Side labels win over text above when both are equally close
+      consider(item.text, aboveGap + 10)
+    }
+  })
+
+  return best?.text
+}
+
+const readPageText = async (page: pdfjs.PDFPageProxy): Promise<PageTextItem[]> => {
+  const content = await page.getTextContent()
+
+  return content.items.flatMap(item => {
+    if (!('str' in item)) return []
+
+    const text = cleanLabel(item.str)
+    if (!text || text.length > MAX_LABEL_LENGTH) return []
+
+    // transform holds the text origin in PDF user space, on the baseline
+    const [, , , scaleY, x, y] = item.transform as number[]
+    const height = item.height || Math.abs(scaleY)
+    return [{ text, rect: { x, y, width: item.width, height } }]
+  })
+}
+
+/**
+ * Replaces name-derived labels with the text printed next to each field's
+ * first widget, using pdf.js text extraction. Fields labelled from their
+ * /TU tooltip are left untouched.
+ */
+export const resolvePageTextLabels = async (pdfBytes: Uint8Array, fields: FormField[]): Promise<FormField[]> => {
+  const pageIndices = new Set(
+    fields
+      .filter(field => field.labelSource === 'name' && field.widgets?.length)
+      .map(field => field.widgets![0].pageIndex)
+  )
+  if (pageIndices.size === 0) return fields
+
+  // pdf.js takes ownership of the buffer it is given, so pass a copy
+  const pdf = await pdfjs.getDocument({ data: pdfBytes.slice() }).promise
+  try {
+    const pageText = new Map<number, PageTextItem[]>()
+    for (const pageIndex of pageIndices) {
+      pageText.set(pageIndex, await readPageText(await pdf.getPage(pageIndex + 1)))
+    }
+
+    return fields.map(field => {
+      const widget = field.widgets?.[0]
+      if (field.labelSource !== 'name' || !widget) return field
+
+      const preferRight = field.type === 'checkbox' || field.type === 'radio'
+      const text = findNearbyText(widget.rect, pageText.get(widget.pageIndex) ?? [], preferRight)
+      return text ? { ...field, label: text, labelSource: 'pageText' } : field
+    })
+  } finally {
+    await pdf.destroy()
+  }
+}
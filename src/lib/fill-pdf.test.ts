@@ -0,0 +1,38 @@
+import { PDFDocument } from 'pdf-lib'
+import { beforeAll, describe, expect, it } from 'vitest'
+import type { FormField } from '@/types/form'
+import { createFixturePdf } from '@/test/fixtures'
+import { fillPdf } from './fill-pdf'
+import { detectFormFields } from './pdf-form'
+
+let fixtureBytes: Uint8Array
+let fields: FormField[]
+
+beforeAll(async () => {
+  fixtureBytes = await createFixturePdf()
+  fields = detectFormFields(await PDFDocument.load(fixtureBytes))
+})
+
+const withValues = (values: Record<string, FormField['value']>) =>
+  fields.map(field => field.name in values ? { ...field, value: values[field.name] } : field)
+
+describe('fillPdf', () => {
+  it('reports a value Helvetica cannot encode and fills the rest', async () => {
+    const { pdfBytes, failedFields } = await fillPdf(fixtureBytes, withValues({ name: 'Łódź', comments: 'Fine' }), { appearanceFont: 'helvetica' })
+
+    const form = (await PDFDocument.load(pdfBytes)).getForm()
+    expect(failedFields).toEqual(['Name'])
+    expect(form.getTextField('name').getText()).toBeUndefined()
+    expect(form.getTextField('comments').getText()).toBe('Fine')
+  })
+
+  it('still flattens the document when one value cannot be drawn', async () => {
+    const { pdfBytes, failedFields } = await fillPdf(fixtureBytes, withValues({ name: 'Łódź', comments: 'Fine' }), {
+      appearanceFont: 'helvetica',
+      flatten: true,
+    })
+
+    expect(failedFields).toEqual(['Name'])
+    expect((await PDFDocument.load(pdfBytes)).getForm().getFields()).toEqual([])
+  })
+})
@@ -0,0 +1,91 @@
+import { PDFDocument } from 'pdf-lib'
+import type { AppearanceFontId, FormField } from '@/types/form'
+import { withCalculatedValues } from './calculations'
+import { writeFieldValue } from './field-classification'
+import { formatDisplayValue, toStoredValue } from './field-format'
+import { applyFormEdits, type FormEdits } from './form-designer'
+import { flattenFields } from './flatten'
+import { embedAppearanceFont } from './fonts'
+import { getFieldFormat } from './input-types'
+import { stampSignature } from './signature'
+
+export interface FillOptions extends FormEdits {
+  appearanceFont?: AppearanceFontId
+  flatten?: boolean
+}
+
+export interface FillResult {
+  pdfBytes: Uint8Array
+  failedFields: string[] // Labels of fields whose value or properties could not be written
+}
+
+/**
+ * Writes FormField values into a copy of the original PDF: applies form
+ * edits, fills the form, stamps signatures and optionally flattens. Fields
+ * that fail are skipped and reported in the result rather than aborting the
+ * whole document.
+ */
+export const fillPdf = async (pdfBytes: Uint8Array, fields: FormField[], options: FillOptions = {}): Promise<FillResult> => {
+  // Load the original PDF
+  const pdfDoc = await PDFDocument.load(pdfBytes)
+
+  // Designed fields, property edits and tab order not saved into the PDF yet
+  const failedFields = applyFormEdits(pdfDoc, fields, options)
+
+  // Calculated fields are written with fresh totals, and formatted fields as
+  // Acrobat would display them, whatever form the value came in
+  const formattedFields = withCalculatedValues(fields).map(field => {
+    const format = getFieldFormat(field)
+    return format && typeof field.value === 'string' ? { ...field, value: formatDisplayValue(format, field.value) } : field
+  })
+
+  // Pick a font that can encode every value, so non-Latin text is not dropped
+  const textValues = formattedFields
+    .filter(field => field.type !== 'signature' && typeof field.value === 'string')
+    .map(field => field.value as string)
+  const font = await embedAppearanceFont(pdfDoc, options.appearanceFont ?? 'auto', textValues)
+
+  const formFields = pdfDoc.getForm().getFields()
+  formattedFields.forEach(field => {
+    try {
+      // Read-only fields keep whatever the PDF already holds, unless the PDF calculates them
+      if (field.readOnly && !field.calculation) return
+
+      const pdfField = formFields.find(f => f.getName() === field.name)
+      if (pdfField) {
+        const format = getFieldFormat(field)
+        const storedValue = format ? toStoredValue(format, String(field.value)) : undefined
+        writeFieldValue(pdfField, field.value, font, storedValue)
+      } else {
+        console.warn(`Field ${field.name} not found in PDF form`)
+      }
+    } catch (fieldError) {
+      console.warn(`Could not fill field ${field.name}:`, fieldError)
+      failedFields.push(field.label)
+      // Continue with other fields even if one fails
+    }
+  })
+
+  // Stamp signatures, either into signature widgets or onto the page
+  for (const field of fields) {
+    if (field.type !== 'signature') continue
+    try {
+      await stampSignature(pdfDoc, field)
+    } catch (signatureError) {
+      console.warn(`Could not stamp signature ${field.name}:`, signatureError)
+    }
+  }
+  
+  // Flatten fields into static page content, except those marked to stay editable
+  if (options.flatten) {
+    const editableNames = new Set(fields.filter(field => field.keepEditable).map(field => field.name))
+    const skipped = flattenFields(pdfDoc, pdfDoc.getForm().getFields().filter(field => !editableNames.has(field.getName())), font)
+    fields.filter(field => skipped.includes(field.name)).forEach(field => {
+      if (!failedFields.includes(field.label)) failedFields.push(field.label)
+    })
+  }
+  
+  // Save the filled PDF; appearances were already generated with the chosen font while filling
+  const filledPdfBytes = await pdfDoc.save({ updateFieldAppearances: false })
+  return { pdfBytes: filledPdfBytes, failedFields }
+}
@@ -0,0 +1,81 @@
+import {
+  AnnotationFlags,
+  PDFCheckBox,
+  PDFDocument,
+  PDFName,
+  PDFRadioGroup,
+  PDFRef,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+  translate,
+} from 'pdf-lib'
+import type { PDFField, PDFFont, PDFWidgetAnnotation } from 'pdf-lib'
+import { removeField } from './form-designer'
+import { findWidgetPageIndex } from './pdf-form'
+
+// Checkboxes and radio buttons keep one appearance per state; pick the one
+// the widget currently shows so flattened buttons look the same as before
+const findAppearanceRef = (field: PDFField, widget: PDFWidgetAnnotation) => {
+  // Widgets without /AP, like unsigned signature fields, have nothing to draw
+  if (!widget.AP()?.has(PDFName.of('N'))) return undefined
+  const appearance = widget.getNormalAppearance()
+  if (appearance instanceof PDFRef) return appearance
+
+  if (field instanceof PDFCheckBox || field instanceof PDFRadioGroup) {
+    const state = widget.getAppearanceState() ?? field.acroField.getValue()
+    const ref = appearance.get(state) ?? appearance.get(PDFName.of('Off'))
+    if (ref instanceof PDFRef) return ref
+  }
+  return undefined
+}
+
+/**
+ * Draws each widget's current appearance into its page's content stream and
+ * removes the field, leaving static content readers cannot change. Unlike
+ * PDFForm.flatten, only the given fields are flattened. Fields whose
+ * appearance cannot be drawn stay in the form; their names are returned.
+ */
+export const flattenFields = (pdfDoc: PDFDocument, fields: PDFField[], font?: PDFFont) => {
+  const form = pdfDoc.getForm()
+  const pages = pdfDoc.getPages()
+  const appearanceFont = font ?? form.getDefaultFont()
+
+  // Bring each field, including just-filled ones, up to date on its own, so
+  // one value the font cannot encode does not stop the rest
+  const skipped: string[] = []
+  const drawable = fields.filter(field => {
+    try {
+      if (field.needsAppearancesUpdate()) field.defaultUpdateAppearances(appearanceFont)
+      return true
+    } catch (error) {
+      console.warn(`Could not draw field ${field.getName()} for flattening:`, error)
+      skipped.push(field.getName())
+      return false
+    }
+  })
+
+  drawable.forEach(field => {
+    field.acroField.getWidgets().forEach(widget => {
+      const page = pages[findWidgetPageIndex(pdfDoc, pages, widget)]
+      if (!page) return
+
+      // Hidden widgets are left out, as a viewer would not show them either
+      const appearanceRef = findAppearanceRef(field, widget)
+      if (!appearanceRef || widget.hasFlag(AnnotationFlags.Hidden)) return
+
+      const { x, y } = widget.getRectangle()
+      const xObjectKey = page.node.newXObject('FlatWidget', appearanceRef)
+      page.pushOperators(
+        pushGraphicsState(),
+        translate(x, y),
+        drawObject(xObjectKey),
+        popGraphicsState(),
+      )
+    })
+
+    removeField(pdfDoc, field)
+  })
+
+  return skipped
+}
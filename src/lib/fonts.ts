@@ -0,0 +1,89 @@
+import fontkit from '@pdf-lib/fontkit'
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib'
+import notoSansUrl from '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url'
+import notoSansScUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url'
+import notoEmojiUrl from '@expo-google-fonts/noto-emoji/400Regular/NotoEmoji_400Regular.ttf?url'
+import type { AppearanceFontId } from '@/types/form'
+
+export const appearanceFonts: { id: AppearanceFontId; name: string }[] = [
+  { id: 'auto', name: 'Automatic' },
+  { id: 'helvetica', name: 'Helvetica (Latin only)' },
+  { id: 'notoSans', name: 'Noto Sans (Latin, Greek, Cyrillic)' },
+  { id: 'notoSansSC', name: 'Noto Sans SC (Chinese, Japanese, Korean)' },
+  { id: 'notoEmoji', name: 'Noto Emoji' },
+]
+
+// Fonts ship with the app as static assets, so they load without a network
+const bundledFontUrls: Record<Exclude<AppearanceFontId, 'auto' | 'helvetica'>, string> = {
+  notoSans: notoSansUrl,
+  notoSansSC: notoSansScUrl,
+  notoEmoji: notoEmojiUrl,
+}
+
+// Tried in order by 'auto' when Helvetica cannot encode the values
+const fallbackOrder = ['notoSans', 'notoSansSC', 'notoEmoji'] as const
+
+const fontBytesCache = new Map<string, Promise<Uint8Array>>()
+
+const loadFontBytes = (url: string) => {
+  let bytes = fontBytesCache.get(url)
+  if (!bytes) {
+    bytes = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Could not load font ${url}: ${response.status}`)
+        return response.arrayBuffer()
+      })
+      .then(buffer => new Uint8Array(buffer))
+    // Let a failed load be retried on the next download
+    bytes.catch(() => fontBytesCache.delete(url))
+    fontBytesCache.set(url, bytes)
+  }
+  return bytes
+}
+
+const isWinAnsiEncodable = (font: PDFFont, texts: string[]) => {
+  try {
+    texts.forEach(text => font.encodeText(text))
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Share of the values' visible characters the font has glyphs for
+const glyphCoverage = (fontBytes: Uint8Array, texts: string[]) => {
+  const font = fontkit.create(fontBytes)
+  const codePoints = Array.from(texts.join(''))
+    .filter(char => char.trim() !== '')
+    .map(char => char.codePointAt(0)!)
+  if (codePoints.length === 0) return 1
+
+  return codePoints.filter(codePoint => font.hasGlyphForCodePoint(codePoint)).length / codePoints.length
+}
+
+/**
+ * Embeds the font used to generate field appearances. 'auto' keeps
+ * Helvetica when every value is WinAnsi-encodable, otherwise it picks the
+ * bundled font covering the most characters in the values.
+ */
+export const embedAppearanceFont = async (pdfDoc: PDFDocument, fontId: AppearanceFontId, texts: string[]): Promise<PDFFont> => {
+  if (fontId === 'helvetica') return pdfDoc.embedFont(StandardFonts.Helvetica)
+
+  pdfDoc.registerFontkit(fontkit)
+
+  if (fontId !== 'auto') {
+    return pdfDoc.embedFont(await loadFontBytes(bundledFontUrls[fontId]), { subset: true })
+  }
+
+  const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  if (isWinAnsiEncodable(helvetica, texts)) return helvetica
+
+  let best: { bytes: Uint8Array; coverage: number } | undefined
+  for (const candidate of fallbackOrder) {
+    const bytes = await loadFontBytes(bundledFontUrls[candidate])
+    const coverage = glyphCoverage(bytes, texts)
+    if (!best || coverage > best.coverage) best = { bytes, coverage }
+    if (coverage === 1) break
+  }
+  return pdfDoc.embedFont(best!.bytes, { subset: true })
+}
@@ -0,0 +1,89 @@
+import { PDFDocument, PDFHexString, PDFName } from 'pdf-lib'
+import { describe, expect, it } from 'vitest'
+import type { FieldCalculation, FormField } from '@/types/form'
+import { createFixturePdf } from '@/test/fixtures'
+import { applyFormEdits, removeFieldReferences, renameFieldReferences } from './form-designer'
+
+const textField = (name: string, calculation?: FieldCalculation): FormField => ({
+  id: name,
+  name,
+  type: 'text',
+  label: name,
+  value: '',
+  ...(calculation && { calculation }),
+})
+
+const calculationOf = (fields: FormField[], name: string) => fields.find(field => field.name === name)?.calculation
+
+describe('renameFieldReferences', () => {
+  it('rewrites the renamed field in expressions and aggregates', () => {
+    const fields = renameFieldReferences([
+      textField('Qty'),
+      textField('Total', { kind: 'expression', expression: 'Qty * Price' }),
+      textField('Count', { kind: 'aggregate', operation: 'SUM', fieldNames: ['Qty'] }),
+    ], 'Qty', 'Quantity')
+
+    expect(calculationOf(fields, 'Total')).toEqual({ kind: 'expression', expression: 'Quantity * Price' })
+    expect(calculationOf(fields, 'Count')).toEqual({ kind: 'aggregate', operation: 'SUM', fieldNames: ['Quantity'] })
+  })
+
+  it('moves references below a renamed name with it', () => {
+    const fields = renameFieldReferences([
+      textField('Total', { kind: 'expression', expression: 'Line.0 + Line.1' }),
+    ], 'Line', 'Item')
+
+    expect(calculationOf(fields, 'Total')).toEqual({ kind: 'expression', expression: 'Item.0 + Item.1' })
+  })
+
+  it('keeps a field in a sum over the parent name it leaves', () => {
+    const fields = renameFieldReferences([
+      textField('Total', { kind: 'aggregate', operation: 'SUM', fieldNames: ['Line'] }),
+    ], 'Line.0', 'Extra')
+
+    expect(calculationOf(fields, 'Total')).toEqual({ kind: 'aggregate', operation: 'SUM', fieldNames: ['Line', 'Extra'] })
+  })
+})
+
+describe('removeFieldReferences', () => {
+  it('drops conditions, comparisons and calculations on the deleted field', () => {
+    const fields = removeFieldReferences([
+      { ...textField('Notes'), conditions: [{ effect: 'show', fieldName: 'Qty', test: 'filled' }] },
+      { ...textField('Max'), validation: [{ kind: 'compare', operator: 'gte', otherFieldName: 'Qty' }, { kind: 'length', max: 5 }] },
+      textField('Total', { kind: 'expression', expression: 'Qty * Price' }),
+      textField('Count', { kind: 'aggregate', operation: 'SUM', fieldNames: ['Qty', 'Tax'] }),
+      textField('Only', { kind: 'aggregate', operation: 'SUM', fieldNames: ['Qty'] }),
+    ], 'Qty')
+
+    expect(fields.map(({ conditions, validation, calculation }) => ({ conditions, validation, calculation }))).toEqual([
+      { conditions: [], validation: undefined, calculation: undefined },
+      { conditions: undefined, validation: [{ kind: 'length', max: 5 }], calculation: undefined },
+      { conditions: undefined, validation: undefined, calculation: undefined },
+      { conditions: undefined, validation: undefined, calculation: { kind: 'aggregate', operation: 'SUM', fieldNames: ['Tax'] } },
+      { conditions: undefined, validation: undefined, calculation: undefined },
+    ])
+  })
+
+  it('keeps a parent name that still covers another field, and unrelated fields as they are', () => {
+    const total = textField('Total', { kind: 'aggregate', operation: 'SUM', fieldNames: ['Line'] })
+    const fields = removeFieldReferences([textField('Line.1'), total], 'Line.0')
+
+    expect(fields[1]).toBe(total)
+    expect(removeFieldReferences([total], 'Line.0')[0].calculation).toBeUndefined()
+  })
+})
+
+describe('applyFormEdits', () => {
+  const tooltipAfterEdit = async (edit: Partial<FormField>) => {
+    const pdfDoc = await PDFDocument.load(await createFixturePdf())
+    applyFormEdits(pdfDoc, [{ ...textField('name'), label: 'Name', labelSource: 'name', propertiesEdited: true, required: true, ...edit }])
+    return pdfDoc.getForm().getTextField('name').acroField.dict.lookupMaybe(PDFName.of('TU'), PDFHexString)?.decodeText()
+  }
+
+  it('leaves the tooltip alone for labels made up from the name', async () => {
+    expect(await tooltipAfterEdit({})).toBeUndefined()
+  })
+
+  it('writes labels the user edited as the tooltip', async () => {
+    expect(await tooltipAfterEdit({ label: 'Full name', labelSource: 'user' })).toBe('Full name')
+  })
+})
@@ -0,0 +1,409 @@
+import {
+  AnnotationFlags,
+  PDFArray,
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFHexString,
+  PDFName,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFRef,
+  PDFTextField,
+  PDFWidgetAnnotation,
+  TextAlignment,
+} from 'pdf-lib'
+import type { PDFField, PDFPage } from 'pdf-lib'
+import type { FieldAlignment, FieldCalculation, FieldWidget, FormField, PdfRect, UploadedFile } from '@/types/form'
+import { calculationFieldNames, renameCalculationFields } from './calculations'
+import { toFormatScripts } from './field-format'
+import { getFieldFormat, localeDatePattern } from './input-types'
+
+export type DesignFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'date' | 'signature'
+
+// Default sizes, in points, for a field placed with a click instead of a drag
+export const designFieldTypes: { id: DesignFieldType; name: string; width: number; height: number }[] = [
+  { id: 'text', name: 'Text', width: 160, height: 20 },
+  { id: 'checkbox', name: 'Checkbox', width: 14, height: 14 },
+  { id: 'radio', name: 'Radio', width: 14, height: 14 },
+  { id: 'dropdown', name: 'Dropdown', width: 160, height: 20 },
+  { id: 'date', name: 'Date', width: 90, height: 20 },
+  { id: 'signature', name: 'Signature', width: 180, height: 54 },
+]
+
+// "Text 3": the first numbered name that no field uses yet
+export const nextFieldName = (fields: FormField[], base: string) => {
+  let number = 1
+  while (fields.some(field => field.name === `${base} ${number}`)) number++
+  return `${base} ${number}`
+}
+
+/**
+ * A new field for a box drawn in the designer. Names are unique, since the
+ * PDF identifies fields by name.
+ */
+export const createDesignedField = (type: DesignFieldType, fields: FormField[], widget: FieldWidget): FormField => {
+  const name = nextFieldName(fields, designFieldTypes.find(designType => designType.id === type)!.name)
+  const base = { id: `designed_${Date.now()}_${fields.length}`, name, label: name, labelSource: 'name' as const, designed: true }
+
+  switch (type) {
+    case 'text':
+      return { ...base, type: 'text', value: '', widgets: [widget] }
+    case 'checkbox':
+      return { ...base, type: 'checkbox', value: false, widgets: [{ ...widget, option: 'Yes' }] }
+    case 'radio':
+      return { ...base, type: 'radio', value: '', options: ['Choice 1'], widgets: [{ ...widget, option: 'Choice 1' }] }
+    case 'dropdown':
+      return { ...base, type: 'select', value: '', options: ['Option 1', 'Option 2'], widgets: [widget] }
+    case 'date':
+      return {
+        ...base,
+        type: 'text',
+        value: '',
+        inputType: 'date',
+        format: { kind: 'date', pattern: localeDatePattern() },
+        widgets: [widget],
+      }
+    case 'signature':
+      return { ...base, type: 'signature', value: '', widgets: [widget] }
+  }
+}
+
+// Adds another choice to a designed radio group
+export const addRadioChoice = (field: FormField, widget: FieldWidget): FormField => {
+  const options = field.options ?? []
+  let number = options.length + 1
+  while (options.includes(`Choice ${number}`)) number++
+  const option = `Choice ${number}`
+  return { ...field, options: [...options, option], widgets: [...(field.widgets ?? []), { ...widget, option }] }
+}
+
+// Transparent, borderless widgets, so the boxes printed on a scanned form show through
+const appearance = (rect: PdfRect) => ({
+  ...rect,
+  backgroundColor: undefined,
+  borderColor: undefined,
+  borderWidth: 0,
+})
+
+const setFormatActions = (pdfDoc: PDFDocument, textField: PDFTextField, field: FormField) => {
+  const format = getFieldFormat(field)
+  const scripts = format && toFormatScripts(format)
+  if (!scripts) return
+
+  const action = (script: string) => pdfDoc.context.obj({ S: 'JavaScript', JS: PDFHexString.fromText(script) })
+  textField.acroField.dict.set(PDFName.of('AA'), pdfDoc.context.obj({
+    ...(scripts.format && { F: action(scripts.format) }),
+    ...(scripts.keystroke && { K: action(scripts.keystroke) }),
+  }))
+}
+
+// pdf-lib cannot create signature fields, so build the field and its widget directly
+const addSignatureField = (pdfDoc: PDFDocument, name: string, page: PDFPage, rect: PdfRect) => {
+  const { context } = pdfDoc
+  const fieldRef = context.nextRef()
+  const widget = PDFWidgetAnnotation.create(context, fieldRef)
+  widget.setRectangle(rect)
+  widget.setP(page.ref)
+  widget.setFlagTo(AnnotationFlags.Print, true)
+  const widgetRef = context.register(widget.dict)
+
+  context.assign(fieldRef, context.obj({ FT: 'Sig', T: PDFHexString.fromText(name), Kids: [widgetRef] }))
+  page.node.addAnnot(widgetRef)
+  pdfDoc.getForm().acroForm.addField(fieldRef)
+}
+
+/**
+ * Writes fields drawn in the designer into the document's AcroForm, with
+ * their widgets, options and format scripts; writeFieldProperties
+ * sets their flags. Fields whose name the form already uses are skipped.
+ */
+export const addDesignedFields = (pdfDoc: PDFDocument, fields: FormField[]) => {
+  const form = pdfDoc.getForm()
+  const pages = pdfDoc.getPages()
+
+  fields.forEach(field => {
+    const widgets = (field.widgets ?? []).filter(widget => pages[widget.pageIndex])
+    if (widgets.length === 0 || form.getFieldMaybe(field.name)) return
+
+    const pageOf = (widget: FieldWidget) => pages[widget.pageIndex]
+    switch (field.type) {
+      case 'text':
+      case 'textarea': {
+        const textField = form.createTextField(field.name)
+        widgets.forEach(widget => textField.addToPage(pageOf(widget), appearance(widget.rect)))
+        setFormatActions(pdfDoc, textField, field)
+        break
+      }
+      case 'checkbox': {
+        const checkBox = form.createCheckBox(field.name)
+        widgets.forEach(widget => checkBox.addToPage(pageOf(widget), appearance(widget.rect)))
+        break
+      }
+      case 'radio': {
+        const radioGroup = form.createRadioGroup(field.name)
+        widgets.forEach((widget, index) =>
+          radioGroup.addOptionToPage(widget.option ?? `Choice ${index + 1}`, pageOf(widget), appearance(widget.rect))
+        )
+        break
+      }
+      case 'select': {
+        const dropdown = form.createDropdown(field.name)
+        dropdown.addOptions(field.options ?? [])
+        widgets.forEach(widget => dropdown.addToPage(pageOf(widget), appearance(widget.rect)))
+        break
+      }
+      case 'signature':
+        widgets.forEach(widget => addSignatureField(pdfDoc, field.name, pageOf(widget), widget.rect))
+        break
+    }
+  })
+}
+
+const alignments: Record<FieldAlignment, TextAlignment> = {
+  left: TextAlignment.Left,
+  center: TextAlignment.Center,
+  right: TextAlignment.Right,
+}
+
+const setFlag = (enabled: boolean, enable: () => void, disable: () => void) => (enabled ? enable() : disable())
+
+// Export values are the names of the widgets' "on" appearances, so renaming one renames those
+const renameOnValue = (field: PDFField, widget: PDFWidgetAnnotation, onValue: string) => {
+  const from = widget.getOnValue()
+  const to = PDFName.of(onValue)
+  if (!from || from === to) return
+
+  const appearances = widget.dict.lookup(PDFName.of('AP'))
+  for (const key of ['N', 'D']) {
+    const states = appearances instanceof PDFDict ? appearances.lookup(PDFName.of(key)) : undefined
+    if (!(states instanceof PDFDict) || !states.has(from)) continue
+    states.set(to, states.get(from)!)
+    states.delete(from)
+  }
+  if (widget.getAppearanceState() === from) widget.setAppearanceState(to)
+  if (field.acroField.dict.get(PDFName.of('V')) === from) field.acroField.dict.set(PDFName.of('V'), to)
+}
+
+const writeExportValues = (field: PDFField, formField: FormField) => {
+  const widgets = field.acroField.getWidgets()
+  if (widgets.length !== formField.widgets?.length) return
+
+  // Buttons with /Opt keep their export values there and name their states by index
+  const exportValues = field.acroField.dict.lookup(PDFName.of('Opt'))
+  widgets.forEach((widget, index) => {
+    const option = formField.widgets![index].option
+    if (!option) return
+    if (exportValues instanceof PDFArray) {
+      exportValues.set(index, PDFHexString.fromText(option))
+    } else {
+      renameOnValue(field, widget, option)
+    }
+  })
+}
+
+/**
+ * Writes a field's properties into its PDF counterpart, found by the name
+ * it had when the PDF was loaded: the new name, label, flags, maximum
+ * length, font size, alignment, options and export values.
+ */
+const writeFieldProperties = (pdfDoc: PDFDocument, formField: FormField) => {
+  const field = pdfDoc.getForm().getFieldMaybe(formField.pdfName ?? formField.name)
+  if (!field) return
+
+  // Only the last part of a nested name belongs to the field itself
+  if (field.getName() !== formField.name) {
+    field.acroField.dict.set(PDFName.of('T'), PDFHexString.fromText(formField.name.split('.').pop()!))
+  }
+  // Labels made up from the name or the page are for this app only, not the PDF's tooltip
+  if (formField.labelSource === 'tooltip' || formField.labelSource === 'user') {
+    field.acroField.dict.set(PDFName.of('TU'), PDFHexString.fromText(formField.label))
+  }
+  setFlag(formField.required ?? false, () => field.enableRequired(), () => field.disableRequired())
+  setFlag(formField.readOnly ?? false, () => field.enableReadOnly(), () => field.disableReadOnly())
+
+  if (field instanceof PDFTextField) {
+    setFlag(formField.type === 'textarea', () => field.enableMultiline(), () => field.disableMultiline())
+    field.setMaxLength(formField.maxLength)
+    if (formField.alignment) field.setAlignment(alignments[formField.alignment])
+  }
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    const options = formField.options ?? []
+    if (options.join('\n') !== field.getOptions().join('\n')) field.setOptions(options)
+  }
+  if ((field instanceof PDFTextField || field instanceof PDFDropdown) && formField.fontSize !== undefined) {
+    field.setFontSize(formField.fontSize)
+  }
+  if (field instanceof PDFCheckBox || field instanceof PDFRadioGroup) writeExportValues(field, formField)
+}
+
+// pdf-lib's removeField takes the widgets' appearance streams out of /Annots
+// instead of the widgets themselves, and fails on widgets without one, so
+// remove the widgets by reference
+export const removeField = (pdfDoc: PDFDocument, field: PDFField) => {
+  const refs = [field.ref, ...field.acroField.getWidgets().map(widget => pdfDoc.context.getObjectRef(widget.dict))]
+  pdfDoc.getPages().forEach(page => refs.forEach(ref => ref && page.node.removeAnnot(ref)))
+  pdfDoc.getForm().acroForm.removeField(field.acroField)
+  refs.forEach(ref => ref && pdfDoc.context.delete(ref))
+}
+
+// Without /Tabs, viewers tab through widgets in the order of the page's /Annots
+const writeTabOrder = (pdfDoc: PDFDocument, fields: FormField[]) => {
+  const form = pdfDoc.getForm()
+  const positions = new Map<PDFRef, number>()
+  fields.forEach((formField, index) => {
+    form.getFieldMaybe(formField.name)?.acroField.getWidgets().forEach(widget => {
+      const ref = pdfDoc.context.getObjectRef(widget.dict)
+      if (ref) positions.set(ref, index)
+    })
+  })
+
+  pdfDoc.getPages().forEach(page => {
+    const annots = page.node.Annots()
+    if (!annots) return
+
+    // Widgets swap places among themselves; links and other annotations stay where they are
+    const refs = annots.asArray()
+    const slots = refs.flatMap((ref, index) => (ref instanceof PDFRef && positions.has(ref) ? [index] : []))
+    const ordered = slots.map(slot => refs[slot] as PDFRef).sort((a, b) => positions.get(a)! - positions.get(b)!)
+    slots.forEach((slot, index) => annots.set(slot, ordered[index]))
+    page.node.delete(PDFName.of('Tabs'))
+  })
+}
+
+// Changes to the form's structure that are kept on the file rather than its fields
+export interface FormEdits {
+  deletedFields?: string[]
+  tabOrder?: boolean
+}
+
+export const getFormEdits = (file: UploadedFile): FormEdits => ({
+  deletedFields: file.deletedFields,
+  tabOrder: file.tabOrderEdited,
+})
+
+// Whether the file has fields or edits that are not saved into its PDF yet
+export const hasFormEdits = (file: UploadedFile) =>
+  Boolean(file.deletedFields?.length || file.tabOrderEdited || file.fields.some(field => field.designed || field.propertiesEdited))
+
+/**
+ * Brings the document's AcroForm in line with the edited fields: removes
+ * deleted fields, adds designed ones, writes changed properties and the
+ * tab order. Returns the labels of fields whose properties could not be
+ * written.
+ */
+export const applyFormEdits = (pdfDoc: PDFDocument, fields: FormField[], edits: FormEdits = {}) => {
+  const form = pdfDoc.getForm()
+  const failedFields: string[] = []
+
+  edits.deletedFields?.forEach(name => {
+    const field = form.getFieldMaybe(name)
+    if (field) removeField(pdfDoc, field)
+  })
+
+  addDesignedFields(pdfDoc, fields.filter(field => field.designed))
+  fields.filter(field => field.designed || field.propertiesEdited).forEach(field => {
+    try {
+      writeFieldProperties(pdfDoc, field)
+    } catch (error) {
+      console.warn(`Could not write the properties of ${field.name}:`, error)
+      failedFields.push(field.label)
+    }
+  })
+
+  if (edits.tabOrder) writeTabOrder(pdfDoc, fields)
+  return failedFields
+}
+
+/**
+ * A copy of the PDF with the designed fields and property edits saved into
+ * it and no values filled in, ready to be filled again as a template.
+ */
+export const createFillablePdf = async (pdfBytes: Uint8Array, fields: FormField[], edits: FormEdits = {}) => {
+  const pdfDoc = await PDFDocument.load(pdfBytes)
+  applyFormEdits(pdfDoc, fields, edits)
+  return pdfDoc.save()
+}
+
+// A calculation naming "Line" also covers "Line.0", "Line.1", ...
+const coversName = (reference: string, name: string) => name === reference || name.startsWith(`${reference}.`)
+
+/**
+ * Points conditions, calculations and comparisons at a renamed field's new
+ * name, so they keep working after the rename. Names inside calculation
+ * expressions are rewritten too. References by a parent name move with the
+ * parent, and a sum over a parent name the field leaves lists the field by
+ * its new name.
+ */
+export const renameFieldReferences = (fields: FormField[], oldName: string, newName: string): FormField[] => {
+  const rename = (name: string) => (coversName(oldName, name) ? `${newName}${name.slice(oldName.length)}` : name)
+
+  const renameCalculation = (calculation: FieldCalculation) => {
+    const renamed = renameCalculationFields(calculation, rename)
+    if (renamed.kind !== 'aggregate') return renamed
+    const leftParent = calculation.kind === 'aggregate' && calculation.fieldNames.some(name => name !== oldName && coversName(name, oldName))
+    return leftParent && !renamed.fieldNames.some(name => coversName(name, newName))
+      ? { ...renamed, fieldNames: [...renamed.fieldNames, newName] }
+      : renamed
+  }
+
+  return fields.map(field => ({
+    ...field,
+    conditions: field.conditions?.map(condition => ({ ...condition, fieldName: rename(condition.fieldName) })),
+    validation: field.validation?.map(rule =>
+      rule.kind === 'compare' ? { ...rule, otherFieldName: rename(rule.otherFieldName) } : rule
+    ),
+    calculation: field.calculation && renameCalculation(field.calculation),
+  }))
+}
+
+/**
+ * Drops what pointed at a deleted field from the remaining fields:
+ * conditions on it, comparisons with it and its place in aggregates. A
+ * parent name stays while it still covers another field. An expression
+ * cannot lose an operand, so one that reads the field is dropped, as is an
+ * aggregate left without fields. Fields that keep all their references are
+ * returned unchanged.
+ */
+export const removeFieldReferences = (fields: FormField[], deletedName: string): FormField[] => {
+  const dangling = (reference: string) =>
+    coversName(reference, deletedName) && !fields.some(field => coversName(reference, field.name))
+
+  const removeFromCalculation = (calculation: FieldCalculation): FieldCalculation | undefined => {
+    if (calculation.kind === 'expression') return calculationFieldNames(calculation).some(dangling) ? undefined : calculation
+    const fieldNames = calculation.fieldNames.filter(name => !dangling(name))
+    if (fieldNames.length === calculation.fieldNames.length) return calculation
+    return fieldNames.length > 0 ? { ...calculation, fieldNames } : undefined
+  }
+
+  return fields.map(field => {
+    const conditions = field.conditions?.filter(condition => !dangling(condition.fieldName))
+    const validation = field.validation?.filter(rule => rule.kind !== 'compare' || !dangling(rule.otherFieldName))
+    const calculation = field.calculation && removeFromCalculation(field.calculation)
+    const unchanged = conditions?.length === field.conditions?.length
+      && validation?.length === field.validation?.length
+      && calculation === field.calculation
+    return unchanged ? field : { ...field, conditions, validation, calculation }
+  })
+}
+
+// Top edges within this many points count as one row when sorting by position
+const ROW_TOLERANCE = 6
+
+/**
+ * Fields in reading order: by page, then top to bottom and left to right
+ * by their first widget. Fields without widgets keep their place at the end.
+ */
+export const sortByPosition = (fields: FormField[]) => {
+  const positionOf = (field: FormField) => {
+    const widget = field.widgets?.[0]
+    return widget && { pageIndex: widget.pageIndex, row: Math.round((widget.rect.y + widget.rect.height) / ROW_TOLERANCE), x: widget.rect.x }
+  }
+  return [...fields].sort((a, b) => {
+    const first = positionOf(a)
+    const second = positionOf(b)
+    if (!first || !second) return (first ? 0 : 1) - (second ? 0 : 1)
+    return first.pageIndex - second.pageIndex || second.row - first.row || first.x - second.x
+  })
+}
@@ -0,0 +1,109 @@
+import type { FormField, UploadedFile } from '@/types/form'
+
+export const FORM_DATA_FORMAT = 'pdf-form-filler/values'
+export const FORM_DATA_VERSION = 1
+
+/**
+ * JSON document with a form's values keyed by fully qualified field name.
+ * Checkboxes hold booleans, every other field type holds a string
+ * (signatures as PNG data URLs).
+ */
+export interface FormDataDocument {
+  format: typeof FORM_DATA_FORMAT
+  version: number
+  source: {
+    fileName: string
+    fieldCount: number
+    exportedAt: string // ISO 8601
+  }
+  values: Record<string, FormField['value']>
+}
+
+export interface JsonImportResult {
+  values: Record<string, string | boolean> // Keyed by field id
+  unmatched: string[] // Names with no field in the form
+  mismatched: string[] // Names whose value does not fit the field's type, e.g. "name (checkbox expects true or false)"
+}
+
+export const exportJson = (file: UploadedFile) => {
+  const data: FormDataDocument = {
+    format: FORM_DATA_FORMAT,
+    version: FORM_DATA_VERSION,
+    source: {
+      fileName: file.name,
+      fieldCount: file.fields.length,
+      exportedAt: new Date().toISOString(),
+    },
+    values: Object.fromEntries(file.fields.map(field => [field.name, field.value])),
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Accepts a document written by exportJson or a bare { "field name": value } object
+const readValues = (json: unknown): Record<string, unknown> => {
+  if (!isPlainObject(json)) throw new Error('The JSON file must contain an object')
+  if (json.format === FORM_DATA_FORMAT) {
+    if (!isPlainObject(json.values)) throw new Error('The JSON file has no "values" object')
+    return json.values
+  }
+  return json
+}
+
+// Checks a JSON value against the field type; returns the reason when it does not fit
+const toFieldValue = (field: FormField, value: unknown): { value: string | boolean } | { reason: string } => {
+  // null clears the field
+  if (value === null) return { value: field.type === 'checkbox' ? false : '' }
+
+  switch (field.type) {
+    case 'checkbox':
+      return typeof value === 'boolean' ? { value } : { reason: 'checkbox expects true or false' }
+
+    case 'radio':
+    case 'select':
+      if (typeof value !== 'string') return { reason: `${field.type} expects a string` }
+      if (value !== '' && !field.options?.includes(value)) return { reason: `"${value}" is not an option` }
+      return { value }
+
+    case 'signature':
+      if (typeof value !== 'string' || (value !== '' && !value.startsWith('data:image/'))) {
+        return { reason: 'signature expects an image data URL' }
+      }
+      return { value }
+
+    default:
+      if (typeof value === 'string') return { value }
+      if (typeof value === 'number' && Number.isFinite(value)) return { value: String(value) }
+      return { reason: 'text expects a string or number' }
+  }
+}
+
+/**
+ * Parses a JSON values file and converts it to FormField values keyed by
+ * field id, matching fields by fully qualified name. Names that match no
+ * field or carry a value of the wrong type are reported instead of applied.
+ */
+export const parseJsonImport = (text: string, fields: FormField[]): JsonImportResult => {
+  const entries = readValues(JSON.parse(text))
+  const fieldsByName = new Map(fields.map(field => [field.name, field]))
+  const result: JsonImportResult = { values: {}, unmatched: [], mismatched: [] }
+
+  Object.entries(entries).forEach(([name, value]) => {
+    const field = fieldsByName.get(name)
+    if (!field) {
+      result.unmatched.push(name)
+      return
+    }
+
+    const converted = toFieldValue(field, value)
+    if ('reason' in converted) {
+      result.mismatched.push(`${name} (${converted.reason})`)
+    } else {
+      result.values[field.id] = converted.value
+    }
+  })
+
+  return result
+}
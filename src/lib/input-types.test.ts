@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import type { FormField } from '@/types/form'
+import { getFieldFormat, withInferredInputType, withInputType } from './input-types'
+
+const textField = (name: string, value: string, format?: FormField['format']): FormField => ({
+  id: name,
+  name,
+  type: 'text',
+  label: name,
+  value,
+  ...(format && { format }),
+})
+
+describe('withInferredInputType', () => {
+  it('guesses an input from the name without formatting the value', () => {
+    const field = withInferredInputType(textField('Amount', '1234'))
+    expect(field).toMatchObject({ inputType: 'currency', inputTypeGuessed: true, value: '1234' })
+    expect(getFieldFormat(field)).toBeUndefined()
+  })
+
+  it('takes the input from the PDF format and keeps that format', () => {
+    const format = { kind: 'date', pattern: 'dd/mm/yyyy' } as const
+    const field = withInferredInputType(textField('Start', '31/01/2024', format))
+    expect(field.inputTypeGuessed).toBeUndefined()
+    expect(getFieldFormat(field)).toEqual(format)
+  })
+})
+
+describe('withInputType', () => {
+  it('formats the value once the user picks the type', () => {
+    const field = withInputType(withInferredInputType(textField('Amount', '1234')), 'number')
+    expect(field.inputTypeGuessed).toBeUndefined()
+    expect(getFieldFormat(field)?.kind).toBe('number')
+  })
+})
@@ -0,0 +1,144 @@
+import type { HTMLAttributes } from 'react'
+import type { FieldFormat, FormField, InputType } from '@/types/form'
+import { formatDisplayValue } from './field-format'
+
+// inputMode picks the matching on-screen keyboard on mobile devices
+export const inputTypes: { id: InputType; name: string; inputMode: HTMLAttributes<HTMLInputElement>['inputMode'] }[] = [
+  { id: 'date', name: 'Date', inputMode: 'text' },
+  { id: 'number', name: 'Number', inputMode: 'decimal' },
+  { id: 'currency', name: 'Currency', inputMode: 'decimal' },
+  { id: 'email', name: 'Email', inputMode: 'email' },
+  { id: 'phone', name: 'Phone', inputMode: 'tel' },
+]
+
+// Checked in order against the field's label and name split into words
+const nameHeuristics: { inputType: InputType; pattern: RegExp }[] = [
+  { inputType: 'email', pattern: /\be-?mail\b/ },
+  { inputType: 'phone', pattern: /\b(phone|telephone|tel|mobile|cell|fax)\b/ },
+  { inputType: 'date', pattern: /\b(date|dob|birthday)\b|date of birth/ },
+  { inputType: 'currency', pattern: /\b(amount|price|cost|fee|salary|income|payment|balance)\b/ },
+  { inputType: 'number', pattern: /\b(qty|quantity|count|age|hours)\b|number of/ },
+]
+
+const wordsOf = (field: FormField) =>
+  `${field.label} ${field.name.replace(/([a-z])([A-Z])/g, '$1 $2')}`.replace(/[_.\-[\]]+/g, ' ').toLowerCase()
+
+const inputTypeForFormat = (format: FieldFormat): InputType | undefined => {
+  switch (format.kind) {
+    case 'date': return 'date'
+    case 'number': return format.currency ? 'currency' : 'number'
+    case 'percent': return 'number'
+    case 'special': return format.special === 'phone' ? 'phone' : undefined
+    default: return undefined
+  }
+}
+
+/**
+ * Picks a typed input for a single-line text field: from its Acrobat
+ * format script when it has one, otherwise from words in its label and
+ * name. Zip codes, social security numbers and masks stay text fields.
+ */
+export const inferInputType = (field: FormField): InputType | undefined => {
+  if (field.type !== 'text') return undefined
+  if (field.format) return inputTypeForFormat(field.format)
+  const words = wordsOf(field)
+  return nameHeuristics.find(heuristic => heuristic.pattern.test(words))?.inputType
+}
+
+/**
+ * Offers a typed input for a freshly uploaded field, leaving its value as
+ * the PDF holds it. A type guessed from words only picks the input: the
+ * value is not formatted, checked or written any differently until the
+ * user chooses the type.
+ */
+export const withInferredInputType = (field: FormField): FormField => {
+  if (field.inputType) return field
+  const inputType = inferInputType(field)
+  if (!inputType) return field
+  return { ...field, inputType, ...(!field.format && { inputTypeGuessed: true }) }
+}
+
+// Separator style of the browser's locale, in Acrobat's sepStyle numbering
+const localeSeparatorStyle = () => {
+  const parts = new Intl.NumberFormat().formatToParts(1234.5)
+  const group = parts.find(part => part.type === 'group')?.value
+  const decimal = parts.find(part => part.type === 'decimal')?.value
+  if (decimal === ',') return group === '.' ? 2 : 3
+  return group === "'" || group === '’' ? 4 : 0
+}
+
+// Currencies of common regions, for currency fields the PDF gives no format
+const regionCurrencies: Record<string, string> = {
+  US: 'USD', CA: 'CAD', MX: 'MXN', BR: 'BRL', GB: 'GBP', CH: 'CHF', SE: 'SEK', NO: 'NOK', DK: 'DKK',
+  PL: 'PLN', CZ: 'CZK', HU: 'HUF', RO: 'RON', TR: 'TRY', IN: 'INR', CN: 'CNY', JP: 'JPY', KR: 'KRW',
+  AU: 'AUD', NZ: 'NZD', ZA: 'ZAR', SG: 'SGD', HK: 'HKD', IL: 'ILS',
+}
+const euroRegions = ['AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK']
+
+// "$" before the amount in the US, " €" after it in Germany; no symbol where the currency is unknown
+const localeCurrency = (): Pick<Extract<FieldFormat, { kind: 'number' }>, 'decimals' | 'currency' | 'currencyPrepend'> => {
+  const region = new Intl.Locale(new Intl.NumberFormat().resolvedOptions().locale).maximize().region ?? ''
+  const code = euroRegions.includes(region) ? 'EUR' : regionCurrencies[region]
+  if (!code) return { decimals: 2 }
+
+  const formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency: code })
+  const parts = formatter.formatToParts(1)
+  const symbolIndex = parts.findIndex(part => part.type === 'currency')
+  const prepend = symbolIndex < parts.findIndex(part => part.type === 'integer')
+  const spacing = parts[prepend ? symbolIndex + 1 : symbolIndex - 1]
+  const space = spacing?.type === 'literal' ? ' ' : ''
+  const symbol = parts[symbolIndex].value
+  return {
+    decimals: formatter.resolvedOptions().maximumFractionDigits,
+    currency: prepend ? `${symbol}${space}` : `${space}${symbol}`,
+    currencyPrepend: prepend,
+  }
+}
+
+const datePatternParts: Record<string, string> = { day: 'dd', month: 'mm', year: 'yyyy' }
+
+// "mm/dd/yyyy" in the US, "dd.mm.yyyy" in Germany
+export const localeDatePattern = () =>
+  new Intl.DateTimeFormat(undefined, { year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(new Date(2000, 0, 31))
+    .map(part => (part.type === 'literal' ? part.value : datePatternParts[part.type] ?? ''))
+    .join('')
+
+const defaultFormat = (inputType: InputType): FieldFormat | undefined => {
+  switch (inputType) {
+    case 'date': return { kind: 'date', pattern: localeDatePattern() }
+    case 'number': return { kind: 'number', separatorStyle: localeSeparatorStyle(), negativeStyle: 0 }
+    case 'currency': return { kind: 'number', separatorStyle: localeSeparatorStyle(), negativeStyle: 0, ...localeCurrency() }
+    case 'phone': return { kind: 'special', special: 'phone' }
+    case 'email': return undefined
+  }
+}
+
+/**
+ * The format a field's value is typed, displayed and written in. The PDF's
+ * own format wins while it suits the input type, so values are written the
+ * way the PDF expects; otherwise an input type the user chose brings a
+ * locale default.
+ */
+export const getFieldFormat = (field: FormField): FieldFormat | undefined => {
+  if (!field.inputType || field.inputTypeGuessed) return field.format
+  if (field.format && inputTypeForFormat(field.format) === field.inputType) return field.format
+  return defaultFormat(field.inputType)
+}
+
+/**
+ * Switches a field to another input type, or back to plain text, showing
+ * its current value in the new type's format where it can be read.
+ */
+export const withInputType = (field: FormField, inputType: InputType | undefined): FormField => {
+  const typed = { ...field, inputType, inputTypeGuessed: undefined }
+  const format = getFieldFormat(typed)
+  return format && typeof field.value === 'string' ? { ...typed, value: formatDisplayValue(format, field.value) } : typed
+}
+
+// The pattern a date picker writes in; date fields without a format use the locale's
+export const getDatePattern = (field: FormField) => {
+  const format = getFieldFormat(field)
+  if (format?.kind === 'date') return format.pattern
+  return field.inputType === 'date' ? localeDatePattern() : undefined
+}
@@ -0,0 +1,122 @@
+import type { FormField } from '@/types/form'
+
+export type CsvRow = Record<string, string>
+
+// Field id -> CSV column; fields without an entry keep their current value
+export type ColumnMapping = Record<string, string>
+
+export interface MergedRow {
+  fields: FormField[]
+  problems: string[] // Values that could not be applied to their field
+}
+
+// "First Name", "first_name" and "firstName" all compare as "firstname"
+const normalizeKey = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+
+const truthyValues = ['true', 'yes', 'y', '1', 'x', 'on', 'checked']
+
+// Fields a CSV column can feed; signatures are images and read-only fields are never written
+export const isMergeable = (field: FormField) => field.type !== 'signature' && !field.readOnly
+
+/**
+ * Matches CSV columns to fields by their full name, the last part of the
+ * name, or the label, ignoring case, spacing and punctuation.
+ */
+export const autoMatchColumns = (fields: FormField[], columns: string[]): ColumnMapping => {
+  const columnsByKey = new Map<string, string>()
+  columns.forEach(column => {
+    const key = normalizeKey(column)
+    if (key && !columnsByKey.has(key)) columnsByKey.set(key, column)
+  })
+
+  const mapping: ColumnMapping = {}
+  fields.filter(isMergeable).forEach(field => {
+    const candidates = [field.name, field.name.split('.').pop() ?? '', field.label]
+    const column = candidates
+      .map(candidate => columnsByKey.get(normalizeKey(candidate)))
+      .find(Boolean)
+    if (column) mapping[field.id] = column
+  })
+  return mapping
+}
+
+// Converts a CSV cell into the value the field's type expects
+const toFieldValue = (field: FormField, cell: string): { value: FormField['value'] } | { problem: string } => {
+  const text = cell.trim()
+
+  switch (field.type) {
+    case 'checkbox': {
+      const onValue = field.widgets?.find(widget => widget.option)?.option
+      const lowered = text.toLowerCase()
+      return { value: truthyValues.includes(lowered) || (!!onValue && lowered === onValue.toLowerCase()) }
+    }
+
+    case 'radio':
+    case 'select': {
+      if (text === '') return { value: '' }
+      const option = field.options?.find(option => option === text)
+        ?? field.options?.find(option => normalizeKey(option) === normalizeKey(text))
+      return option !== undefined
+        ? { value: option }
+        : { problem: `"${text}" is not an option of ${field.label}` }
+    }
+
+    default:
+      if (field.maxLength && text.length > field.maxLength) {
+        return { problem: `${field.label} is limited to ${field.maxLength} characters` }
+      }
+      return { value: cell }
+  }
+}
+
+/**
+ * Applies one CSV row to a copy of the fields. Cells that do not fit their
+ * field are reported and leave the field's current value in place.
+ */
+export const mergeRow = (fields: FormField[], mapping: ColumnMapping, row: CsvRow): MergedRow => {
+  const problems: string[] = []
+  const merged = fields.map(field => {
+    const column = mapping[field.id]
+    if (!column || !isMergeable(field)) return field
+
+    const result = toFieldValue(field, row[column] ?? '')
+    if ('problem' in result) {
+      problems.push(result.problem)
+      return field
+    }
+    return { ...field, value: result.value }
+  })
+  return { fields: merged, problems }
+}
+
+// Characters that are not allowed in file names on common platforms; line breaks collapse to spaces
+const sanitizeFileName = (name: string) =>
+  name
+    .replace(/[\\/:*?"<>|]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 120)
+
+/**
+ * Builds a PDF file name from a pattern like "{Last Name}-{row}", where
+ * "{row}" is the 1-based row number and any other placeholder is a column.
+ */
+export const buildFileName = (pattern: string, row: CsvRow, rowNumber: number) => {
+  const name = sanitizeFileName(
+    pattern.replace(/\{([^}]+)\}/g, (_, key: string) =>
+      key === 'row' ? String(rowNumber) : (row[key] ?? '').trim()
+    ).replace(/\.pdf$/i, '')
+  )
+  return `${name || `row-${rowNumber}`}.pdf`
+}
+
+// Appends " (2)", " (3)", ... so rows sharing a name do not overwrite each other in the ZIP
+export const uniqueFileName = (fileName: string, usedNames: Set<string>) => {
+  const base = fileName.replace(/\.pdf$/i, '')
+  let candidate = fileName
+  for (let copy = 2; usedNames.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base} (${copy}).pdf`
+  }
+  usedNames.add(candidate.toLowerCase())
+  return candidate
+}
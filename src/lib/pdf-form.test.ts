@@ -0,0 +1,60 @@
+import { PDFDocument } from 'pdf-lib'
+import { beforeAll, describe, expect, it } from 'vitest'
+import type { FormField } from '@/types/form'
+import { createFixturePdf } from '@/test/fixtures'
+import { detectFormFields, formatFieldLabel, readPageInfo } from './pdf-form'
+
+let pdfDoc: PDFDocument
+let fields: Map<string, FormField>
+
+beforeAll(async () => {
+  pdfDoc = await PDFDocument.load(await createFixturePdf())
+  fields = new Map(detectFormFields(pdfDoc).map(field => [field.name, field]))
+})
+
+describe('detectFormFields', () => {
+  it('detects every fillable field with its type', () => {
+    expect(Object.fromEntries([...fields].map(([name, field]) => [name, field.type]))).toEqual({
+      name: 'text',
+      comments: 'textarea',
+      agree: 'checkbox',
+      color: 'radio',
+      country: 'select',
+      languages: 'select',
+      signature: 'signature',
+      'address.city': 'text',
+    })
+  })
+
+  it('reads the options of radio groups, dropdowns and option lists', () => {
+    expect(fields.get('color')?.options).toEqual(['Red', 'Blue'])
+    expect(fields.get('country')?.options).toEqual(['Canada', 'Mexico', 'United States'])
+    expect(fields.get('languages')?.options).toEqual(['English', 'French', 'Spanish'])
+  })
+
+  it('records each widget with its page, rectangle and export value', () => {
+    expect(fields.get('name')?.widgets).toEqual([{ pageIndex: 0, rect: { x: 50, y: 700, width: 200, height: 20 }, option: undefined }])
+    expect(fields.get('color')?.widgets?.map(widget => widget.option)).toEqual(['Red', 'Blue'])
+    expect(fields.get('signature')?.widgets?.[0]).toMatchObject({ pageIndex: 0, rect: { x: 50, y: 300, width: 200, height: 40 } })
+  })
+
+  it('places widgets on rotated pages', () => {
+    expect(fields.get('address.city')?.widgets?.[0].pageIndex).toBe(1)
+    expect(readPageInfo(pdfDoc).map(page => page.rotation)).toEqual([0, 90])
+  })
+
+  it('uses a /DV default inherited from a parent node', () => {
+    expect(fields.get('address.city')).toMatchObject({ value: 'Springfield', defaultValue: 'Springfield' })
+  })
+
+  it('labels fields from the last part of their name', () => {
+    expect(fields.get('address.city')?.label).toBe('City')
+  })
+})
+
+describe('formatFieldLabel', () => {
+  it('splits words and drops array indices', () => {
+    expect(formatFieldLabel('topmostSubform[0].Page1[0].firstName[0]')).toBe('First Name')
+    expect(formatFieldLabel('date_of-birth')).toBe('Date of birth')
+  })
+})
@@ -0,0 +1,236 @@
+import {
+  PDFArray,
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFRawStream,
+  PDFString,
+  PDFTextField,
+  PDFWidgetAnnotation,
+  TextAlignment,
+  decodePDFRawStream,
+} from 'pdf-lib'
+import type { FieldAlignment, FieldWidget, FormField, PageInfo } from '@/types/form'
+import { isFillable, toFormFieldType } from './field-classification'
+import { parseCalculateScript } from './calculations'
+import { formatStoredValue, parseFieldScripts, type FieldScripts } from './field-format'
+import { normalizeRotation } from './pdf-geometry'
+
+// Fully qualified names like "topmostSubform[0].Page1[0].f1_01[0]" are
+// reduced to their last segment without array indices before splitting
+export const formatFieldLabel = (fieldName: string) => {
+  const partialName = fieldName.split('.').pop()?.replace(/\[\d+\]/g, '') || fieldName
+  return partialName
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .trim()
+    .replace(/^./, str => str.toUpperCase())
+}
+
+const decodePdfValue = (value: PDFObject | undefined): string | undefined => {
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText()
+  if (value instanceof PDFName) return value.decodeText()
+  if (value instanceof PDFArray && value.size() > 0) return decodePdfValue(value.lookup(0))
+  return undefined
+}
+
+// /TU is the field's alternate name, shown as a tooltip by PDF viewers
+const readAlternateName = (field: PDFField) =>
+  decodePdfValue(field.acroField.dict.lookup(PDFName.of('TU')))?.replace(/\s+/g, ' ').trim() || undefined
+
+// /DV is inheritable, so it may live on a parent node of the field tree
+const readDefaultValue = (field: PDFField) =>
+  decodePdfValue(field.acroField.getInheritableAttribute(PDFName.of('DV')))
+
+// Scripts are short, so decode stream bytes directly, honouring a UTF-16 byte order mark
+const decodeScriptBytes = (bytes: Uint8Array) =>
+  bytes[0] === 0xfe && bytes[1] === 0xff
+    ? new TextDecoder('utf-16be').decode(bytes.subarray(2))
+    : new TextDecoder('latin1').decode(bytes)
+
+// JavaScript of the field's /AA additional actions; /JS is a string or a stream
+const readFieldScripts = (field: PDFField): FieldScripts => {
+  const actions = field.acroField.dict.lookup(PDFName.of('AA'))
+  const script = (key: string) => {
+    const action = actions instanceof PDFDict ? actions.lookup(PDFName.of(key)) : undefined
+    const javascript = action instanceof PDFDict ? action.lookup(PDFName.of('JS')) : undefined
+    if (javascript instanceof PDFRawStream) return decodeScriptBytes(decodePDFRawStream(javascript).decode())
+    return decodePdfValue(javascript)
+  }
+  return { format: script('F'), keystroke: script('K'), validate: script('V'), calculate: script('C') }
+}
+
+// /CO lists the calculated fields in the order their scripts run
+const readCalculationOrder = (pdfDoc: PDFDocument) => {
+  const order = pdfDoc.getForm().acroForm.dict.lookup(PDFName.of('CO'))
+  return new Map(order instanceof PDFArray ? order.asArray().map((ref, index) => [ref, index]) : [])
+}
+
+// Text fields take their display format, range checks and calculation from
+// Acrobat scripts; stored values are shown the way Acrobat would display them
+const readScriptedState = (
+  field: PDFField,
+  fieldType: FormField['type'],
+  value: FormField['value'],
+  calculationOrder: Map<PDFObject, number>,
+): Pick<FormField, 'value' | 'format' | 'validation' | 'calculation' | 'calculationOrder'> => {
+  if (fieldType !== 'text' && fieldType !== 'textarea') return { value }
+
+  const scripts = readFieldScripts(field)
+  const { format, validation } = parseFieldScripts(scripts)
+  const calculation = parseCalculateScript(scripts.calculate)
+  const order = calculationOrder.get(field.ref)
+  return {
+    value: format && typeof value === 'string' ? formatStoredValue(format, value) : value,
+    ...(format && { format }),
+    ...(validation && { validation }),
+    ...(calculation && { calculation }),
+    ...(calculation && order !== undefined && { calculationOrder: order }),
+  }
+}
+
+// Choice fields may list the same export value more than once, and the
+// select/radio inputs need unique, non-empty option values
+const uniqueOptions = (options: string[]) =>
+  Array.from(new Set(options.filter(option => option !== '')))
+
+// The size in the default appearance string, e.g. "/Helv 10 Tf 0 g"
+const readFontSize = (field: PDFField) => {
+  const match = /(\d*\.?\d+)\s+Tf/.exec(field.acroField.getDefaultAppearance() ?? '')
+  return match ? Number(match[1]) : undefined
+}
+
+const alignmentNames: Record<TextAlignment, FieldAlignment> = {
+  [TextAlignment.Left]: 'left',
+  [TextAlignment.Center]: 'center',
+  [TextAlignment.Right]: 'right',
+}
+
+const readFieldState = (field: PDFField, fieldType: FormField['type']): Pick<FormField, 'value' | 'defaultValue' | 'options' | 'maxLength' | 'fontSize' | 'alignment'> => {
+  const defaultValue = readDefaultValue(field)
+
+  switch (fieldType) {
+    case 'text':
+    case 'textarea': {
+      const textField = field as PDFTextField
+      return {
+        value: textField.getText() ?? defaultValue ?? '',
+        defaultValue,
+        maxLength: textField.getMaxLength(),
+        fontSize: readFontSize(field),
+        alignment: alignmentNames[textField.getAlignment()],
+      }
+    }
+
+    case 'checkbox': {
+      const checkBox = field as PDFCheckBox
+      return {
+        value: checkBox.isChecked(),
+        defaultValue: defaultValue !== undefined ? defaultValue !== 'Off' : undefined,
+      }
+    }
+
+    case 'radio': {
+      const radioGroup = field as PDFRadioGroup
+      return {
+        value: radioGroup.getSelected() ?? '',
+        defaultValue,
+        options: uniqueOptions(radioGroup.getOptions()),
+      }
+    }
+
+    case 'select': {
+      const choiceField = field as PDFDropdown | PDFOptionList
+      return {
+        // Multi-select option lists are reduced to their first selection
+        value: choiceField.getSelected()[0] ?? defaultValue ?? '',
+        defaultValue,
+        options: uniqueOptions(choiceField.getOptions()),
+        fontSize: readFontSize(field),
+      }
+    }
+
+    default:
+      return { value: '', defaultValue }
+  }
+}
+
+export const readPageInfo = (pdfDoc: PDFDocument): PageInfo[] =>
+  pdfDoc.getPages().map(page => ({
+    cropBox: page.getCropBox(),
+    rotation: normalizeRotation(page.getRotation().angle),
+  }))
+
+// Widgets usually point at their page through /P, but that entry is
+// optional, so fall back to searching each page's /Annots
+export const findWidgetPageIndex = (pdfDoc: PDFDocument, pages: PDFPage[], widget: PDFWidgetAnnotation) => {
+  const pageRef = widget.P()
+  const byPageRef = pages.findIndex(page => page.ref === pageRef)
+  const widgetRef = pdfDoc.context.getObjectRef(widget.dict)
+  if (byPageRef !== -1 || !widgetRef) return byPageRef
+
+  const page = pdfDoc.findPageForAnnotationRef(widgetRef)
+  return page ? pages.indexOf(page) : -1
+}
+
+// Buttons with /Opt list their export values there, one per widget, and name their states by index
+const readExportValues = (field: PDFField) =>
+  field instanceof PDFCheckBox || field instanceof PDFRadioGroup
+    ? field.acroField.getExportValues()?.map(value => value.decodeText())
+    : undefined
+
+const readFieldWidgets = (pdfDoc: PDFDocument, pages: PDFPage[], field: PDFField): FieldWidget[] => {
+  const exportValues = readExportValues(field)
+  return field.acroField.getWidgets().flatMap((widget, index) => {
+    const pageIndex = findWidgetPageIndex(pdfDoc, pages, widget)
+    if (pageIndex === -1) return []
+
+    // /Rect corners may be given in any order
+    const { x, y, width, height } = widget.getRectangle()
+    const rect = {
+      x: Math.min(x, x + width),
+      y: Math.min(y, y + height),
+      width: Math.abs(width),
+      height: Math.abs(height),
+    }
+    const option = field instanceof PDFCheckBox || field instanceof PDFRadioGroup
+      ? exportValues?.[index] ?? widget.getOnValue()?.decodeText()
+      : undefined
+
+    return [{ pageIndex, rect, option }]
+  })
+}
+
+export const detectFormFields = (pdfDoc: PDFDocument): FormField[] => {
+  const pages = pdfDoc.getPages()
+  const calculationOrder = readCalculationOrder(pdfDoc)
+
+  return pdfDoc.getForm().getFields().filter(isFillable).map((field, index) => {
+    const fieldName = field.getName()
+    const fieldType = toFormFieldType(field)
+    const alternateName = readAlternateName(field)
+    const state = readFieldState(field, fieldType)
+
+    return {
+      id: `field_${index}`,
+      name: fieldName,
+      type: fieldType,
+      label: alternateName ?? formatFieldLabel(fieldName),
+      labelSource: alternateName ? 'tooltip' : 'name',
+      ...state,
+      ...readScriptedState(field, fieldType, state.value, calculationOrder),
+      required: field.isRequired(),
+      readOnly: field.isReadOnly(),
+      placeholder: `Enter ${fieldName}`,
+      widgets: readFieldWidgets(pdfDoc, pages, field),
+    }
+  })
+}
@@ -0,0 +1,89 @@
+import type { PageInfo, PdfRect } from '@/types/form'
+
+export interface ViewportRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export const normalizeRotation = (angle: number) => (((Math.round(angle / 90) * 90) % 360) + 360) % 360
+
+// Size of the page as displayed, before scaling, with /Rotate applied
+export const getViewportSize = (page: PageInfo) => {
+  const { width, height } = page.cropBox
+  return page.rotation % 180 === 0 ? { width, height } : { width: height, height: width }
+}
+
+/**
+ * Maps a rectangle in PDF user space to CSS pixels relative to the top-left
+ * corner of the rendered page, following the page's crop box and rotation.
+ */
+export const toViewportRect = (rect: PdfRect, page: PageInfo, scale: number): ViewportRect => {
+  const { cropBox, rotation } = page
+
+  // Unrotated position with the origin moved to the top-left corner
+  const left = rect.x - cropBox.x
+  const top = cropBox.y + cropBox.height - (rect.y + rect.height)
+
+  let viewport: ViewportRect
+  switch (rotation) {
+    case 90:
+      viewport = { left: cropBox.height - (top + rect.height), top: left, width: rect.height, height: rect.width }
+      break
+    case 180:
+      viewport = { left: cropBox.width - (left + rect.width), top: cropBox.height - (top + rect.height), width: rect.width, height: rect.height }
+      break
+    case 270:
+      viewport = { left: top, top: cropBox.width - (left + rect.width), width: rect.height, height: rect.width }
+      break
+    default:
+      viewport = { left, top, width: rect.width, height: rect.height }
+  }
+
+  return {
+    left: viewport.left * scale,
+    top: viewport.top * scale,
+    width: viewport.width * scale,
+    height: viewport.height * scale,
+  }
+}
+
+// Inverse of toViewportRect for a single point: CSS pixels on the rendered page to PDF user space
+export const fromViewportPoint = (left: number, top: number, page: PageInfo, scale: number) => {
+  const { cropBox, rotation } = page
+  const viewportLeft = left / scale
+  const viewportTop = top / scale
+
+  let unrotated: { left: number; top: number }
+  switch (rotation) {
+    case 90:
+      unrotated = { left: viewportTop, top: cropBox.height - viewportLeft }
+      break
+    case 180:
+      unrotated = { left: cropBox.width - viewportLeft, top: cropBox.height - viewportTop }
+      break
+    case 270:
+      unrotated = { left: cropBox.width - viewportTop, top: viewportLeft }
+      break
+    default:
+      unrotated = { left: viewportLeft, top: viewportTop }
+  }
+
+  return {
+    x: cropBox.x + unrotated.left,
+    y: cropBox.y + cropBox.height - unrotated.top,
+  }
+}
+
+// Rectangle drawn on the rendered page, converted corner by corner to PDF user space
+export const fromViewportRect = (rect: ViewportRect, page: PageInfo, scale: number): PdfRect => {
+  const a = fromViewportPoint(rect.left, rect.top, page, scale)
+  const b = fromViewportPoint(rect.left + rect.width, rect.top + rect.height, page, scale)
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  }
+}
@@ -0,0 +1,111 @@
+import type { FormField, MatchOverride, Profile, ProfileAttribute } from '@/types/form'
+import { formatDisplayValue } from './field-format'
+import { getFieldFormat } from './input-types'
+import { formatFieldLabel } from './pdf-form'
+
+export const profileAttributes: { id: ProfileAttribute; name: string; synonyms: string[] }[] = [
+  { id: 'fullName', name: 'Full name', synonyms: ['full name', 'name', 'your name', 'applicant name', 'print name', 'printed name'] },
+  { id: 'givenName', name: 'Given name', synonyms: ['given name', 'first name', 'forename', 'fname', 'first'] },
+  { id: 'familyName', name: 'Family name', synonyms: ['family name', 'last name', 'surname', 'lname', 'last'] },
+  { id: 'email', name: 'Email', synonyms: ['email', 'e mail', 'email address', 'mail'] },
+  { id: 'phone', name: 'Phone', synonyms: ['phone', 'telephone', 'tel', 'phone number', 'mobile', 'cell', 'contact number'] },
+  { id: 'street', name: 'Street address', synonyms: ['street', 'street address', 'address', 'address line 1', 'address 1', 'addr'] },
+  { id: 'city', name: 'City', synonyms: ['city', 'town', 'locality'] },
+  { id: 'state', name: 'State / region', synonyms: ['state', 'province', 'region', 'county'] },
+  { id: 'postcode', name: 'Postcode', synonyms: ['postcode', 'postal code', 'zip', 'zip code', 'post code'] },
+  { id: 'country', name: 'Country', synonyms: ['country', 'nation'] },
+  { id: 'dateOfBirth', name: 'Date of birth', synonyms: ['date of birth', 'dob', 'birth date', 'birthdate', 'birthday'] },
+  { id: 'company', name: 'Company', synonyms: ['company', 'company name', 'organization', 'organisation', 'employer', 'business name', 'firm'] },
+  { id: 'jobTitle', name: 'Job title', synonyms: ['job title', 'title', 'position', 'occupation', 'role'] },
+  { id: 'taxId', name: 'Tax ID', synonyms: ['tax id', 'tin', 'ein', 'vat', 'vat number', 'tax number', 'ssn', 'tax identification number'] },
+  { id: 'website', name: 'Website', synonyms: ['website', 'web site', 'url', 'homepage'] },
+]
+
+export interface ProfileMatch {
+  fieldId: string
+  attribute: ProfileAttribute | null
+  confidence: number // 0 to 1
+  remembered: boolean // Taken from a saved override rather than guessed
+}
+
+// Below this, a guessed match is shown but not selected for filling
+export const MIN_CONFIDENCE = 0.5
+
+// "firstName", "first_name" and "First Name:" all become "first name"
+const normalizeText = (text: string) =>
+  text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+
+// Profiles only hold text, so checkboxes, radio groups and signatures are never
+// autofilled, and calculated fields would overwrite whatever was filled in
+export const isAutofillable = (field: FormField) =>
+  (field.type === 'text' || field.type === 'textarea' || field.type === 'select') && !field.readOnly && !field.calculation
+
+// Overrides are remembered by what the form calls the field, so they carry over to other PDFs
+export const overrideKeys = (field: FormField) =>
+  Array.from(new Set([normalizeText(field.label), normalizeText(formatFieldLabel(field.name))].filter(Boolean)))
+
+// Scores how well one piece of field text names an attribute
+const scoreText = (text: string, synonyms: string[]) => {
+  const words = text.split(' ')
+  let best = 0
+  synonyms.forEach(synonym => {
+    if (text === synonym) {
+      best = Math.max(best, 1)
+      return
+    }
+    // Whole-word containment, weighted by how much of the text the synonym covers
+    if (` ${text} `.includes(` ${synonym} `)) {
+      best = Math.max(best, 0.5 + 0.4 * (synonym.split(' ').length / words.length))
+    }
+  })
+  return best
+}
+
+const guessAttribute = (field: FormField): Omit<ProfileMatch, 'fieldId' | 'remembered'> => {
+  const texts = [normalizeText(field.label), normalizeText(formatFieldLabel(field.name))].filter(Boolean)
+  let best: Omit<ProfileMatch, 'fieldId' | 'remembered'> = { attribute: null, confidence: 0 }
+  profileAttributes.forEach(({ id, synonyms }) => {
+    const confidence = Math.max(...texts.map(text => scoreText(text, synonyms)))
+    if (confidence > best.confidence) best = { attribute: id, confidence }
+  })
+  return best
+}
+
+/**
+ * Maps each autofillable field to the profile attribute it most likely
+ * asks for, by comparing its label and name with known synonyms. A saved
+ * override for the same label or name wins with full confidence.
+ */
+export const matchProfileFields = (fields: FormField[], overrides: MatchOverride[]): ProfileMatch[] => {
+  const overridesByKey = new Map(overrides.map(override => [override.key, override.attribute]))
+
+  return fields.filter(isAutofillable).map(field => {
+    const overrideKey = overrideKeys(field).find(key => overridesByKey.has(key))
+    if (overrideKey !== undefined) {
+      return { fieldId: field.id, attribute: overridesByKey.get(overrideKey)!, confidence: 1, remembered: true }
+    }
+    return { fieldId: field.id, ...guessAttribute(field), remembered: false }
+  })
+}
+
+/**
+ * Returns the profile's value for a field, or undefined when the profile
+ * has none or a choice field offers no matching option. A missing full
+ * name is built from the given and family names, and values are shown in
+ * the field's format, so "1990-01-31" fills a "mm/dd/yyyy" field as
+ * "01/31/1990".
+ */
+export const profileValueFor = (field: FormField, profile: Profile, attribute: ProfileAttribute | null) => {
+  const { givenName, familyName } = profile.values
+  const value = attribute === 'fullName' && !profile.values.fullName?.trim()
+    ? [givenName, familyName].map(part => part?.trim()).filter(Boolean).join(' ')
+    : attribute ? profile.values[attribute]?.trim() : undefined
+  if (!value) return undefined
+  if (field.type === 'select') return field.options?.find(option => option.toLowerCase() === value.toLowerCase())
+  const format = getFieldFormat(field)
+  return format ? formatDisplayValue(format, value) : value
+}
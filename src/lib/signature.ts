@@ -0,0 +1,74 @@
+import { PDFDocument, PDFImage, degrees, drawImage } from 'pdf-lib'
+import type { PDFWidgetAnnotation } from 'pdf-lib'
+import type { FormField, PdfRect } from '@/types/form'
+import { classifyField } from './field-classification'
+import { normalizeRotation } from './pdf-geometry'
+
+// Largest placement of the image inside a box, centered, keeping its aspect ratio
+const fitImage = (image: PDFImage, width: number, height: number) => {
+  const size = image.scaleToFit(width, height)
+  return { x: (width - size.width) / 2, y: (height - size.height) / 2, ...size }
+}
+
+const setWidgetImageAppearance = (pdfDoc: PDFDocument, widget: PDFWidgetAnnotation, image: PDFImage) => {
+  const rectangle = widget.getRectangle()
+  const width = Math.abs(rectangle.width)
+  const height = Math.abs(rectangle.height)
+  const placement = fitImage(image, width, height)
+
+  const appearance = pdfDoc.context.formXObject(
+    drawImage('Signature', { ...placement, rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0) }),
+    {
+      BBox: [0, 0, width, height],
+      Resources: { XObject: { Signature: image.ref } },
+    },
+  )
+  widget.setNormalAppearance(pdfDoc.context.register(appearance))
+}
+
+/**
+ * Draws the image upright as seen in a viewer, so a signature placed on a
+ * rotated page is not stamped sideways.
+ */
+const drawImageOnPage = (pdfDoc: PDFDocument, pageIndex: number, rect: PdfRect, image: PDFImage) => {
+  const page = pdfDoc.getPages()[pageIndex]
+  if (!page) return
+
+  const rotation = normalizeRotation(page.getRotation().angle)
+  const sideways = rotation % 180 !== 0
+  const fitted = sideways ? image.scaleToFit(rect.height, rect.width) : image.scaleToFit(rect.width, rect.height)
+
+  // Box the rotated image occupies in user space, centered in the rect
+  const boxWidth = sideways ? fitted.height : fitted.width
+  const boxHeight = sideways ? fitted.width : fitted.height
+  const x = rect.x + (rect.width - boxWidth) / 2
+  const y = rect.y + (rect.height - boxHeight) / 2
+
+  // pdf-lib rotates counter-clockwise around the image origin
+  const origins: Record<number, [number, number]> = {
+    0: [x, y],
+    90: [x + boxWidth, y],
+    180: [x + boxWidth, y + boxHeight],
+    270: [x, y + boxHeight],
+  }
+  const [originX, originY] = origins[rotation]
+  page.drawImage(image, { x: originX, y: originY, ...fitted, rotate: degrees(rotation) })
+}
+
+/**
+ * Stamps a signature FormField into the document. Signatures for PDF
+ * signature fields become the widgets' appearance; signatures placed on
+ * flat pages are drawn into the page content at their widget rectangles.
+ */
+export const stampSignature = async (pdfDoc: PDFDocument, field: FormField) => {
+  if (typeof field.value !== 'string' || field.value === '') return
+
+  const image = await pdfDoc.embedPng(field.value)
+  const pdfField = pdfDoc.getForm().getFields().find(f => f.getName() === field.name)
+
+  if (pdfField && classifyField(pdfField) === 'signature') {
+    pdfField.acroField.getWidgets().forEach(widget => setWidgetImageAppearance(pdfDoc, widget, image))
+  } else {
+    field.widgets?.forEach(widget => drawImageOnPage(pdfDoc, widget.pageIndex, widget.rect, image))
+  }
+}
@@ -0,0 +1,151 @@
+import type { FormTemplate, MatchOverride, Profile, UploadedFile } from '@/types/form'
+
+const DB_NAME = 'pdf-form-filler'
+const DB_VERSION = 3
+
+// PDF bytes are written once per upload; file records change with every
+// edit, so they live in a separate store to keep those writes small
+const FILES_STORE = 'files'
+const PDFS_STORE = 'pdfs'
+const PROFILES_STORE = 'profiles'
+const MATCH_OVERRIDES_STORE = 'matchOverrides'
+const TEMPLATES_STORE = 'templates'
+
+type StoredFile = Omit<UploadedFile, 'pdfBytes' | 'pdfUrl'>
+
+export interface StorageEstimate {
+  usage: number // Bytes used by this origin
+  quota: number // Bytes available to this origin
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: 'id' })
+        if (!db.objectStoreNames.contains(PDFS_STORE)) db.createObjectStore(PDFS_STORE)
+        if (!db.objectStoreNames.contains(PROFILES_STORE)) db.createObjectStore(PROFILES_STORE, { keyPath: 'id' })
+        if (!db.objectStoreNames.contains(MATCH_OVERRIDES_STORE)) db.createObjectStore(MATCH_OVERRIDES_STORE, { keyPath: 'key' })
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a failed open be retried on the next call
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+// Runs the writes in one transaction and resolves once it has committed
+const runWrite = async (storeNames: string[], callback: (transaction: IDBTransaction) => void) => {
+  const db = await openDb()
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite')
+    callback(transaction)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+const readAll = async <T>(storeName: string) => {
+  const db = await openDb()
+  return new Promise<T[]>((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll()
+    request.onsuccess = () => resolve(request.result as T[])
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const savePdfBytes = (fileId: string, pdfBytes: Uint8Array) =>
+  runWrite([PDFS_STORE], transaction => {
+    transaction.objectStore(PDFS_STORE).put(pdfBytes, fileId)
+  })
+
+// Saves everything but the PDF bytes and the session-only blob URL
+export const saveFileRecord = (file: UploadedFile) => {
+  const { pdfBytes, pdfUrl, ...record } = file
+  return runWrite([FILES_STORE], transaction => {
+    transaction.objectStore(FILES_STORE).put(record satisfies StoredFile)
+  })
+}
+
+/**
+ * Reads every stored file back, oldest upload first. pdfUrl is left empty
+ * for the caller to fill with a fresh blob URL, since object URLs do not
+ * survive a reload. Records whose PDF bytes are missing are skipped.
+ */
+export const loadStoredFiles = async (): Promise<UploadedFile[]> => {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([FILES_STORE, PDFS_STORE], 'readonly')
+    const files: UploadedFile[] = []
+
+    const recordsRequest = transaction.objectStore(FILES_STORE).getAll()
+    recordsRequest.onsuccess = () => {
+      (recordsRequest.result as StoredFile[]).forEach(record => {
+        const pdfRequest = transaction.objectStore(PDFS_STORE).get(record.id)
+        pdfRequest.onsuccess = () => {
+          if (pdfRequest.result) files.push({ ...record, pdfBytes: pdfRequest.result, pdfUrl: '' })
+        }
+      })
+    }
+
+    transaction.oncomplete = () => resolve(files.sort((a, b) => a.uploadDate.getTime() - b.uploadDate.getTime()))
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+export const loadTemplates = async () =>
+  (await readAll<FormTemplate>(TEMPLATES_STORE)).sort((a, b) => a.name.localeCompare(b.name))
+
+export const saveTemplates = (templates: FormTemplate[]) =>
+  runWrite([TEMPLATES_STORE], transaction => {
+    const store = transaction.objectStore(TEMPLATES_STORE)
+    templates.forEach(template => store.put(template))
+  })
+
+export const deleteTemplate = (templateId: string) =>
+  runWrite([TEMPLATES_STORE], transaction => {
+    transaction.objectStore(TEMPLATES_STORE).delete(templateId)
+  })
+
+const ALL_STORES = [FILES_STORE, PDFS_STORE, PROFILES_STORE, MATCH_OVERRIDES_STORE, TEMPLATES_STORE]
+
+export const clearLocalData = () =>
+  runWrite(ALL_STORES, transaction => {
+    ALL_STORES.forEach(storeName => transaction.objectStore(storeName).clear())
+  })
+
+export const loadProfiles = async () =>
+  (await readAll<Profile>(PROFILES_STORE)).sort((a, b) => a.name.localeCompare(b.name))
+
+export const saveProfile = (profile: Profile) =>
+  runWrite([PROFILES_STORE], transaction => {
+    transaction.objectStore(PROFILES_STORE).put(profile)
+  })
+
+export const deleteProfile = (profileId: string) =>
+  runWrite([PROFILES_STORE], transaction => {
+    transaction.objectStore(PROFILES_STORE).delete(profileId)
+  })
+
+export const loadMatchOverrides = () => readAll<MatchOverride>(MATCH_OVERRIDES_STORE)
+
+export const saveMatchOverrides = (overrides: MatchOverride[]) =>
+  runWrite([MATCH_OVERRIDES_STORE], transaction => {
+    const store = transaction.objectStore(MATCH_OVERRIDES_STORE)
+    overrides.forEach(override => store.put(override))
+  })
+
+// Browsers without the Storage API report no estimate
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
+}
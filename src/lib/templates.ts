@@ -0,0 +1,109 @@
+import type { FormField, FormTemplate, TemplateField } from '@/types/form'
+
+export const TEMPLATES_FORMAT = 'pdf-form-filler/templates'
+export const TEMPLATES_VERSION = 1
+
+/**
+ * Hashes the structure of a detected form: every field's fully qualified
+ * name, type and widget count. The same PDF form uploaded again yields the
+ * same fingerprint whatever values it holds.
+ */
+export const fingerprintFields = async (fields: FormField[]) => {
+  const structure = fields
+    .map(field => `${field.name}|${field.type}|${field.widgets?.length ?? 0}`)
+    .sort()
+    .join('\n')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(structure))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const isEmptyValue = (value: FormField['value']) => value === '' || value === false
+
+/**
+ * Reapplies a template to freshly detected fields: labels, required flags,
+ * validation rules, conditions, input types and field order, plus default
+ * values for fields that are still empty. Fields the template does not know
+ * keep their place after the known ones.
+ */
+export const applyTemplate = (fields: FormField[], template: FormTemplate): FormField[] => {
+  const templateFields = new Map(template.fields.map((templateField, index) => [templateField.name, { templateField, index }]))
+
+  return fields
+    .map((field, index) => {
+      const entry = templateFields.get(field.name)
+      if (!entry) return { field, order: template.fields.length + index }
+
+      const { label, required, defaultValue, validation, conditions, inputType } = entry.templateField
+      return {
+        field: {
+          ...field,
+          ...(label && { label, labelSource: 'template' as const }),
+          ...(required !== undefined && { required }),
+          ...(validation && { validation }),
+          ...(conditions && { conditions }),
+          ...(inputType && { inputType }),
+          ...(defaultValue !== undefined && { defaultValue }),
+          ...(defaultValue !== undefined && isEmptyValue(field.value) && { value: defaultValue }),
+        },
+        order: entry.index,
+      }
+    })
+    .sort((a, b) => a.order - b.order)
+    .map(({ field }) => field)
+}
+
+/**
+ * Captures a form's current labels, required flags, validation rules,
+ * conditions, input types and field order as a template for the given
+ * fingerprint. With `useValuesAsDefaults`, non-empty values become defaults.
+ */
+export const createTemplate = (name: string, fingerprint: string, fields: FormField[], useValuesAsDefaults: boolean): FormTemplate => {
+  const now = new Date()
+  return {
+    id: `template_${Date.now()}`,
+    name,
+    fingerprint,
+    createdAt: now,
+    updatedAt: now,
+    fields: fields.map((field): TemplateField => ({
+      name: field.name,
+      type: field.type,
+      label: field.label,
+      required: field.required ?? false,
+      ...(field.validation?.length && { validation: field.validation }),
+      ...(field.conditions?.length && { conditions: field.conditions }),
+      ...(field.inputType && !field.inputTypeGuessed && { inputType: field.inputType }),
+      ...(useValuesAsDefaults && field.type !== 'signature' && !isEmptyValue(field.value) && { defaultValue: field.value }),
+    })),
+  }
+}
+
+export const exportTemplates = (templates: FormTemplate[]) =>
+  JSON.stringify({ format: TEMPLATES_FORMAT, version: TEMPLATES_VERSION, templates }, null, 2)
+
+const isTemplate = (value: unknown): value is FormTemplate => {
+  const template = value as FormTemplate
+  return typeof template === 'object' && template !== null
+    && typeof template.id === 'string'
+    && typeof template.name === 'string'
+    && typeof template.fingerprint === 'string'
+    && Array.isArray(template.fields)
+    && template.fields.every(field => typeof field?.name === 'string' && typeof field?.type === 'string')
+}
+
+/**
+ * Reads templates written by exportTemplates. Dates are revived from their
+ * JSON strings; entries that are not templates are skipped.
+ */
+export const parseTemplates = (text: string): FormTemplate[] => {
+  const json = JSON.parse(text)
+  if (json?.format !== TEMPLATES_FORMAT || !Array.isArray(json.templates)) {
+    throw new Error('The file is not a template export')
+  }
+
+  return json.templates.filter(isTemplate).map((template: FormTemplate) => ({
+    ...template,
+    createdAt: new Date(template.createdAt),
+    updatedAt: new Date(template.updatedAt),
+  }))
+}
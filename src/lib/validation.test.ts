@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import type { FormField } from '@/types/form'
+import { parseDate, validateField } from './validation'
+
+const dateField = (name: string, value: string, pattern: string): FormField => ({
+  id: name,
+  name,
+  type: 'text',
+  label: name,
+  value,
+  format: { kind: 'date', pattern },
+})
+
+describe('parseDate', () => {
+  it('reads dates in the given pattern, day first where the pattern says so', () => {
+    expect(parseDate('02/01/2024', 'dd/mm/yyyy')).toBe(Date.UTC(2024, 0, 2))
+    expect(parseDate('31.01.2024', 'dd.mm.yyyy')).toBe(Date.UTC(2024, 0, 31))
+  })
+
+  it('falls back to ISO dates', () => {
+    expect(parseDate('2024-01-31', 'dd.mm.yyyy')).toBe(Date.UTC(2024, 0, 31))
+    expect(parseDate('2024-01-31')).toBe(Date.UTC(2024, 0, 31))
+  })
+})
+
+describe('validateField', () => {
+  it('checks date ranges in the field pattern', () => {
+    const field = { ...dateField('Start', '31.01.2024', 'dd.mm.yyyy'), validation: [{ kind: 'dateRange' as const, min: '2024-02-01' }] }
+    expect(validateField(field, [field]).map(violation => violation.message)).toEqual(['Must be on or after 2024-02-01'])
+  })
+
+  it('compares dates written in different patterns', () => {
+    const end = dateField('End', '02/01/2024', 'dd/mm/yyyy')
+    const start = { ...dateField('Start', '01/15/2024', 'mm/dd/yyyy'), validation: [{ kind: 'compare' as const, operator: 'lt' as const, otherFieldName: 'End' }] }
+    expect(validateField(start, [start, end])).toEqual([
+      { fieldId: 'Start', label: 'Start', message: 'Must be less than End', isMissing: false },
+    ])
+  })
+})
@@ -0,0 +1,184 @@
+import type { ComparisonOperator, FormField, InputType, ValidationRule } from '@/types/form'
+import { parseDateText, toStoredValue } from './field-format'
+import { getDatePattern, getFieldFormat } from './input-types'
+
+export interface FieldViolation {
+  fieldId: string
+  label: string
+  message: string
+  isMissing: boolean // A required field left empty, rather than a value breaking a rule
+}
+
+export const comparisonOperators: { id: ComparisonOperator; name: string }[] = [
+  { id: 'eq', name: 'equal to' },
+  { id: 'ne', name: 'different from' },
+  { id: 'lt', name: 'less than' },
+  { id: 'lte', name: 'at most' },
+  { id: 'gt', name: 'greater than' },
+  { id: 'gte', name: 'at least' },
+]
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+// Digits with optional +, spaces, dots, dashes and parentheses; the digit count is checked separately
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/
+
+const isEmpty = (field: FormField) =>
+  field.type === 'checkbox' ? field.value !== true : String(field.value).trim() === ''
+
+// "$1,234.50" -> 1234.5; undefined when the text is not a number
+export const parseNumber = (text: string) => {
+  const cleaned = text.replace(/[\s,$€£¥%]/g, '')
+  if (cleaned === '' || !/^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return undefined
+  return Number(cleaned)
+}
+
+// Reads a date in the field's pattern, such as "dd.mm.yyyy", falling back to
+// ISO dates; without a pattern anything Date.parse understands. Compared by calendar day
+export const parseDate = (text: string, pattern?: string) => {
+  const patterned = pattern ? parseDateText(text, pattern) : undefined
+  if (patterned) return Date.UTC(patterned.getFullYear(), patterned.getMonth(), patterned.getDate())
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim())
+  if (iso) return Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+  if (pattern) return undefined
+
+  const time = Date.parse(text)
+  if (Number.isNaN(time)) return undefined
+  const date = new Date(time)
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+// Formatted numbers are checked by the value stored in the PDF, as Acrobat's
+// range checks are: "(1.234,50 €)" is -1234.5 and "25%" is 0.25
+const readNumber = (field: FormField, text: string) => {
+  const format = getFieldFormat(field)
+  return parseNumber(format?.kind === 'number' || format?.kind === 'percent' ? toStoredValue(format, text) : text)
+}
+
+// Typed inputs check their values without the user adding a rule
+const inputTypeRules: Partial<Record<InputType, ValidationRule>> = {
+  email: { kind: 'email' },
+  phone: { kind: 'phone' },
+  number: { kind: 'range' },
+  currency: { kind: 'range' },
+}
+
+const compareValues = (a: string, b: string, patternA?: string, patternB?: string) => {
+  const [numberA, numberB] = [parseNumber(a), parseNumber(b)]
+  if (numberA !== undefined && numberB !== undefined) return numberA - numberB
+  const [dateA, dateB] = [parseDate(a, patternA), parseDate(b, patternB)]
+  if (dateA !== undefined && dateB !== undefined) return dateA - dateB
+  return a.localeCompare(b)
+}
+
+const operatorHolds = (operator: ComparisonOperator, difference: number) => {
+  switch (operator) {
+    case 'eq': return difference === 0
+    case 'ne': return difference !== 0
+    case 'lt': return difference < 0
+    case 'lte': return difference <= 0
+    case 'gt': return difference > 0
+    case 'gte': return difference >= 0
+  }
+}
+
+// Returns the error message when the rule fails, undefined when it passes
+const checkRule = (rule: ValidationRule, field: FormField, fields: FormField[]): string | undefined => {
+  const text = String(field.value).trim()
+  if (isEmpty(field)) return undefined
+
+  switch (rule.kind) {
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? undefined : 'Enter a valid email address'
+
+    case 'phone': {
+      const digits = text.replace(/\D/g, '').length
+      return PHONE_PATTERN.test(text) && digits >= 7 && digits <= 15 ? undefined : 'Enter a valid phone number'
+    }
+
+    case 'pattern': {
+      let pattern: RegExp
+      try {
+        pattern = new RegExp(rule.pattern)
+      } catch {
+        return `Invalid pattern ${rule.pattern}`
+      }
+      return pattern.test(text) ? undefined : 'Does not match the expected format'
+    }
+
+    case 'length':
+      if (rule.min !== undefined && text.length < rule.min) return `Must be at least ${rule.min} characters`
+      if (rule.max !== undefined && text.length > rule.max) return `Must be at most ${rule.max} characters`
+      return undefined
+
+    case 'range': {
+      const number = readNumber(field, text)
+      if (number === undefined) return 'Enter a number'
+      if (rule.min !== undefined && number < rule.min) return `Must be at least ${rule.min}`
+      if (rule.max !== undefined && number > rule.max) return `Must be at most ${rule.max}`
+      return undefined
+    }
+
+    case 'dateRange': {
+      const date = parseDate(text, getDatePattern(field))
+      if (date === undefined) return 'Enter a valid date'
+      const min = rule.min ? parseDate(rule.min) : undefined
+      const max = rule.max ? parseDate(rule.max) : undefined
+      if (min !== undefined && date < min) return `Must be on or after ${rule.min}`
+      if (max !== undefined && date > max) return `Must be on or before ${rule.max}`
+      return undefined
+    }
+
+    case 'compare': {
+      const other = fields.find(candidate => candidate.name === rule.otherFieldName)
+      // Nothing to compare until both sides are filled in
+      if (!other || isEmpty(other)) return undefined
+      const operator = comparisonOperators.find(candidate => candidate.id === rule.operator)!
+      const difference = compareValues(text, String(other.value).trim(), getDatePattern(field), getDatePattern(other))
+      return operatorHolds(rule.operator, difference)
+        ? undefined
+        : `Must be ${operator.name} ${other.label}`
+    }
+  }
+}
+
+/**
+ * Checks one field against its required flag and validation rules,
+ * returning every failure. Other fields are needed for comparisons.
+ */
+export const validateField = (field: FormField, fields: FormField[]): FieldViolation[] => {
+  if (field.readOnly || field.calculation) return []
+
+  const violation = (message: string, isMissing = false) => ({ fieldId: field.id, label: field.label, message, isMissing })
+  // A required checkbox is an acknowledgement that has to be ticked
+  if (field.required && isEmpty(field)) {
+    return [violation(field.type === 'checkbox' ? `${field.label} must be ticked` : `${field.label} is required`, true)]
+  }
+
+  const rules = field.validation ?? []
+  // Types guessed from the field's name only pick the input
+  const implicitRule = field.inputType && !field.inputTypeGuessed && inputTypeRules[field.inputType]
+  const allRules = implicitRule && !rules.some(rule => rule.kind === implicitRule.kind) ? [implicitRule, ...rules] : rules
+  return allRules.flatMap(rule => {
+    const message = checkRule(rule, field, fields)
+    return message ? [violation(rule.message || message)] : []
+  })
+}
+
+export const validateForm = (fields: FormField[]) => fields.flatMap(field => validateField(field, fields))
+
+// Short description of a rule for the rule editor
+export const describeRule = (rule: ValidationRule) => {
+  const bounds = (min?: number | string, max?: number | string) =>
+    [min !== undefined && min !== '' && `min ${min}`, max !== undefined && max !== '' && `max ${max}`].filter(Boolean).join(', ')
+
+  switch (rule.kind) {
+    case 'email': return 'Email address'
+    case 'phone': return 'Phone number'
+    case 'pattern': return `Matches /${rule.pattern}/`
+    case 'length': return `Length: ${bounds(rule.min, rule.max)}`
+    case 'range': return `Number: ${bounds(rule.min, rule.max)}`
+    case 'dateRange': return `Date: ${bounds(rule.min, rule.max)}`
+    case 'compare': return `${comparisonOperators.find(operator => operator.id === rule.operator)?.name} ${rule.otherFieldName}`
+  }
+}
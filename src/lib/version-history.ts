@@ -0,0 +1,66 @@
+import type { FieldSnapshot, FormField, UploadedFile } from '@/types/form'
+
+// Oldest snapshots are dropped beyond this, to bound what is kept in IndexedDB
+export const MAX_VERSIONS = 100
+
+export interface FieldChange {
+  fieldId: string
+  label: string
+  before: FormField['value'] | undefined // undefined when the field did not exist yet
+  after: FormField['value']
+}
+
+const captureValues = (fields: FormField[]) =>
+  Object.fromEntries(fields.map(field => [field.id, field.value]))
+
+const sameValues = (a: Record<string, string | boolean>, b: Record<string, string | boolean>) => {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key])
+}
+
+/**
+ * Returns the file with a snapshot of its current values appended, or the
+ * same file object when nothing changed since the latest snapshot.
+ */
+export const withSnapshot = (file: UploadedFile): UploadedFile => {
+  const versions = file.versions ?? []
+  const values = captureValues(file.fields)
+  const latest = versions[versions.length - 1]
+  if (latest && sameValues(latest.values, values)) return file
+
+  const snapshot: FieldSnapshot = {
+    id: `version_${Date.now()}`,
+    createdAt: new Date(),
+    values,
+  }
+  return { ...file, versions: [...versions, snapshot].slice(-MAX_VERSIONS) }
+}
+
+/**
+ * Lists the fields whose value differs between two snapshots. Fields that
+ * have since been removed from the form are left out.
+ */
+export const diffSnapshots = (
+  fields: FormField[],
+  before: FieldSnapshot | undefined,
+  after: FieldSnapshot,
+): FieldChange[] =>
+  fields
+    .filter(field => field.id in after.values && before?.values[field.id] !== after.values[field.id])
+    .map(field => ({
+      fieldId: field.id,
+      label: field.label,
+      before: before?.values[field.id],
+      after: after.values[field.id],
+    }))
+
+// Human-readable value for the history list; signatures are images, so only their presence is shown
+export const describeValue = (field: FormField | undefined, value: FormField['value'] | undefined) => {
+  if (value === undefined || value === '') return 'empty'
+  if (typeof value === 'boolean') return value ? 'checked' : 'unchecked'
+  if (field?.type === 'signature') return 'signed'
+  return value
+}
+
+export const isCurrentVersion = (file: UploadedFile, snapshot: FieldSnapshot) =>
+  sameValues(snapshot.values, captureValues(file.fields))
@@ -0,0 +1,122 @@
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFWidgetAnnotation,
+  StandardFonts,
+  concatTransformationMatrix,
+  degrees,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  stroke,
+} from 'pdf-lib'
+
+/**
+ * Builds the fixture form the tests run against: one field of every kind
+ * pdf-lib knows, a second page rotated by 90 degrees, and a text field that
+ * inherits its /DV default from a parent node in the field tree.
+ */
+export const createFixturePdf = async () => {
+  const pdfDoc = await PDFDocument.create()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const form = pdfDoc.getForm()
+  const page = pdfDoc.addPage([612, 792])
+
+  const name = form.createTextField('name')
+  name.addToPage(page, { x: 50, y: 700, width: 200, height: 20, borderWidth: 0, font })
+
+  const comments = form.createTextField('comments')
+  comments.enableMultiline()
+  comments.addToPage(page, { x: 50, y: 600, width: 300, height: 80, font })
+
+  const agree = form.createCheckBox('agree')
+  agree.addToPage(page, { x: 50, y: 560, width: 12, height: 12 })
+
+  const color = form.createRadioGroup('color')
+  color.addOptionToPage('Red', page, { x: 50, y: 520, width: 12, height: 12 })
+  color.addOptionToPage('Blue', page, { x: 80, y: 520, width: 12, height: 12 })
+
+  const country = form.createDropdown('country')
+  country.addOptions(['Canada', 'Mexico', 'United States'])
+  country.addToPage(page, { x: 50, y: 480, width: 150, height: 20, font })
+
+  const languages = form.createOptionList('languages')
+  languages.addOptions(['English', 'French', 'Spanish'])
+  languages.addToPage(page, { x: 50, y: 400, width: 150, height: 60, font })
+
+  const submit = form.createButton('submit')
+  submit.addToPage('Submit', page, { x: 400, y: 50, width: 80, height: 24, font })
+
+  // pdf-lib cannot create signature fields, so build the field and its widget directly
+  const signatureRef = pdfDoc.context.nextRef()
+  const signatureWidget = PDFWidgetAnnotation.create(pdfDoc.context, signatureRef)
+  signatureWidget.setRectangle({ x: 50, y: 300, width: 200, height: 40 })
+  signatureWidget.setP(page.ref)
+  const signatureWidgetRef = pdfDoc.context.register(signatureWidget.dict)
+  pdfDoc.context.assign(signatureRef, pdfDoc.context.obj({ FT: 'Sig', T: PDFHexString.fromText('signature'), Kids: [signatureWidgetRef] }))
+  page.node.addAnnot(signatureWidgetRef)
+  form.acroForm.addField(signatureRef)
+
+  const rotatedPage = pdfDoc.addPage([612, 792])
+  rotatedPage.setRotation(degrees(90))
+
+  // "address" becomes a non-terminal parent holding the inherited default
+  const city = form.createTextField('address.city')
+  city.addToPage(rotatedPage, { x: 100, y: 100, width: 150, height: 20, font })
+  city.acroField.getParent()!.dict.set(PDFName.of('DV'), PDFHexString.fromText('Springfield'))
+
+  return pdfDoc.save()
+}
+
+/**
+ * Builds a flat PDF without a form, for field detection: a labelled line, a
+ * larger box and a checkbox-sized square, a line drawn through a cm scale,
+ * another inside a form XObject, and a second page ruled like graph paper.
+ */
+export const createFlatFixturePdf = async () => {
+  const pdfDoc = await PDFDocument.create()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const page = pdfDoc.addPage([612, 792])
+  const black = rgb(0, 0, 0)
+  const text = (value: string, x: number, y: number) => page.drawText(value, { x, y, size: 12, font })
+
+  text('Name:', 50, 701)
+  page.drawLine({ start: { x: 100, y: 698 }, end: { x: 300, y: 698 }, thickness: 1 })
+
+  text('Comments', 50, 640)
+  page.drawRectangle({ x: 50, y: 560, width: 300, height: 60, borderWidth: 1, borderColor: black })
+
+  page.drawRectangle({ x: 50, y: 500, width: 12, height: 12, borderWidth: 1, borderColor: black })
+  text('I agree', 70, 502)
+  // Too large for a checkbox, too small for a text field
+  page.drawRectangle({ x: 400, y: 500, width: 30, height: 30, borderWidth: 1, borderColor: black })
+
+  // Drawn at half size and scaled up, so the line ends up from (100, 400) to (300, 400)
+  text('Signature', 30, 402)
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(2, 0, 0, 2, 0, 0),
+    moveTo(50, 200),
+    lineTo(150, 200),
+    stroke(),
+    popGraphicsState(),
+  )
+
+  // A form XObject drawn 100 points lower, putting its line on y = 200
+  const stamp = await PDFDocument.create()
+  stamp.addPage([612, 792]).drawLine({ start: { x: 100, y: 300 }, end: { x: 300, y: 300 }, thickness: 1 })
+  text('Date', 50, 203)
+  page.drawPage(await pdfDoc.embedPage(stamp.getPage(0)), { x: 0, y: -100 })
+
+  const grid = pdfDoc.addPage([612, 792])
+  for (let row = 0; row < 13; row++) {
+    for (let column = 0; column < 13; column++) {
+      grid.drawRectangle({ x: 50 + column * 20, y: 400 + row * 20, width: 10, height: 10, borderWidth: 1, borderColor: black })
+    }
+  }
+
+  return pdfDoc.save()
+}
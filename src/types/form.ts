@@ -0,0 +1,195 @@
+export interface PdfRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface FieldWidget {
+  pageIndex: number
+  rect: PdfRect // PDF user space, origin at the bottom-left of the page
+  option?: string // Export value of a checkbox or radio button widget
+}
+
+export interface PageInfo {
+  cropBox: PdfRect
+  rotation: number // Clockwise, normalized to 0, 90, 180 or 270
+}
+
+// Where a field's label came from: the PDF's /TU tooltip, text printed next
+// to the widget, the field name itself, a saved template or the user's edit
+export type LabelSource = 'tooltip' | 'pageText' | 'name' | 'template' | 'user'
+
+export type ComparisonOperator = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte'
+
+// Declarative checks on a field's value; they all pass while the field is
+// empty, which the required flag covers
+export type ValidationRule = (
+  | { kind: 'email' }
+  | { kind: 'phone' }
+  | { kind: 'pattern'; pattern: string }
+  | { kind: 'length'; min?: number; max?: number }
+  | { kind: 'range'; min?: number; max?: number }
+  | { kind: 'dateRange'; min?: string; max?: string } // ISO dates, yyyy-mm-dd
+  | { kind: 'compare'; operator: ComparisonOperator; otherFieldName: string }
+) & {
+  message?: string // Replaces the generated error message
+}
+
+// Display format read from a text field's Acrobat format or keystroke
+// script (AFNumber_Format, AFDate_FormatEx, AFSpecial_Format, ...)
+export type FieldFormat =
+  | {
+      kind: 'number'
+      decimals?: number // Digits after the decimal point; as entered when absent
+      separatorStyle: number // Acrobat's sepStyle: 0 "1,234.56", 1 "1234.56", 2 "1.234,56", 3 "1234,56", 4 "1'234.56"
+      negativeStyle: number // Acrobat's negStyle: 0 and 1 "-1", 2 and 3 "(1)"
+      currency?: string
+      currencyPrepend?: boolean
+    }
+  | { kind: 'percent'; decimals: number; separatorStyle: number }
+  | { kind: 'date'; pattern: string } // Acrobat date/time pattern such as "mm/dd/yyyy" or "h:MM tt"
+  | { kind: 'special'; special: 'zip' | 'zip4' | 'phone' | 'ssn' }
+  | { kind: 'mask'; mask: string } // 9 digit, A letter, O letter or digit, X any character
+
+export type FieldAlignment = 'left' | 'center' | 'right'
+
+// Typed input shown for a text field instead of a plain text box
+export type InputType = 'date' | 'number' | 'currency' | 'email' | 'phone'
+
+export type CalculationOperation = 'SUM' | 'PRD' | 'AVG' | 'MIN' | 'MAX'
+
+// How a field's value is computed from others, read from its calculate script
+export type FieldCalculation =
+  | { kind: 'aggregate'; operation: CalculationOperation; fieldNames: string[] } // AFSimple_Calculate
+  | { kind: 'expression'; expression: string } // Simplified field notation, e.g. "(Qty * Price) - Discount"
+
+export type ConditionEffect = 'show' | 'hide' | 'enable' | 'disable' | 'require'
+
+export type ConditionTest = 'equals' | 'notEquals' | 'filled' | 'empty'
+
+// Makes a field depend on another one, e.g. show 4b only when 4a is "Yes".
+// A checkbox counts as filled when ticked
+export interface FieldCondition {
+  effect: ConditionEffect
+  fieldName: string // Fully qualified name of the controlling field
+  test: ConditionTest
+  value?: string // Compared with the controlling value for 'equals' and 'notEquals'
+}
+
+export interface FormField {
+  id: string
+  name: string
+  type: 'text' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'signature'
+  label: string
+  labelSource?: LabelSource
+  value: string | boolean
+  defaultValue?: string | boolean // Value from the PDF's /DV entry
+  options?: string[]
+  required?: boolean
+  readOnly?: boolean
+  maxLength?: number
+  placeholder?: string
+  widgets?: FieldWidget[]
+  keepEditable?: boolean // Left interactive when the download is flattened
+  validation?: ValidationRule[]
+  conditions?: FieldCondition[]
+  format?: FieldFormat
+  inputType?: InputType // Inferred on upload, can be changed by the user
+  inputTypeGuessed?: boolean // Guessed from the label or name, so it picks the input without formatting the value
+  calculation?: FieldCalculation
+  calculationOrder?: number // Position in the PDF's calculation order (/CO)
+  designed?: boolean // Drawn in the form designer and not yet saved into the PDF
+  fontSize?: number // From the PDF's default appearance; 0 sizes text to fit the widget
+  alignment?: FieldAlignment
+  propertiesEdited?: boolean // Changed in the field properties dialog, written into the AcroForm on download
+  pdfName?: string // Name in the stored PDF, while the field is renamed
+}
+
+// Font used to generate field appearances on download; 'auto' picks one
+// that covers the characters in the values
+export type AppearanceFontId = 'auto' | 'helvetica' | 'notoSans' | 'notoSansSC' | 'notoEmoji'
+
+// Why a download went ahead with validation errors, kept for auditing
+export interface ValidationOverride {
+  createdAt: Date
+  reason: string
+  violations: string[]
+}
+
+// Field values at one point in time, keyed by field id
+export interface FieldSnapshot {
+  id: string
+  createdAt: Date
+  values: Record<string, string | boolean>
+}
+
+export interface UploadedFile {
+  id: string
+  name: string
+  size: number
+  uploadDate: Date
+  fields: FormField[]
+  pdfBytes: Uint8Array // Store original PDF data
+  pdfUrl: string // URL for PDF viewing
+  pages: PageInfo[]
+  appearanceFont?: AppearanceFontId
+  versions?: FieldSnapshot[] // Autosaved history, oldest first
+  fingerprint?: string // Hash of the detected field tree, absent for forms without fields
+  templateId?: string // Template applied on upload or from the library
+  validationOverrides?: ValidationOverride[] // Downloads made despite failing validation
+  deletedFields?: string[] // Names of PDF fields the user deleted, removed from downloads
+  tabOrderEdited?: boolean // Fields were reordered, so downloads use their order as the tab order
+  suggestedFields?: FormField[] // Detected on a PDF without a form, waiting to be accepted or rejected
+}
+
+// Canonical attributes a saved profile can hold and autofill into forms
+export type ProfileAttribute =
+  | 'fullName'
+  | 'givenName'
+  | 'familyName'
+  | 'email'
+  | 'phone'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'postcode'
+  | 'country'
+  | 'dateOfBirth'
+  | 'company'
+  | 'jobTitle'
+  | 'taxId'
+  | 'website'
+
+export interface Profile {
+  id: string
+  name: string // Shown in the profile picker, e.g. "Personal" or "Acme Ltd"
+  values: Partial<Record<ProfileAttribute, string>>
+}
+
+// A user's correction of the matcher, remembered for fields with the same name or label
+export interface MatchOverride {
+  key: string
+  attribute: ProfileAttribute | null // null when the field should never be autofilled
+}
+
+// Customizations a template reapplies to a field, matched by fully qualified name
+export interface TemplateField {
+  name: string
+  type: FormField['type']
+  label?: string
+  required?: boolean
+  defaultValue?: string | boolean
+  validation?: ValidationRule[]
+  conditions?: FieldCondition[]
+  inputType?: InputType
+}
+
+export interface FormTemplate {
+  id: string
+  name: string
+  fingerprint: string
+  createdAt: Date
+  updatedAt: Date
+  fields: TemplateField[] // In display order
+}